@@ -1,43 +1,53 @@
-import React, { useState, useEffect } from 'react';
-import { Tab, ItineraryItem, ExpenseItem, Photo, DEFAULT_TRIP_USERS, FirebaseConfig } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Tab, ItineraryItem, ExpenseItem, SettlementPayment, Photo, Trip, TripBudget, MemberProfile, Revisioned, ActivityEntry, DEFAULT_TRIP, DEFAULT_TRIP_USERS, FirebaseConfig } from './types';
 import { NavBar } from './components/NavBar';
 import { Header } from './components/Header';
 import { SettleView } from './views/SettleView';
-import { ToolView } from './views/ToolView';
+import { ToolView, ExpenseDraft } from './views/ToolView';
 import { PlanView } from './views/PlanView';
 import { PhotoView } from './views/PhotoView';
 import { LibraryView } from './views/LibraryView';
 import { LoginView } from './views/LoginView';
-import { getPhotosFromDB, addPhotoToDB, deletePhotoFromDB, clearPhotosFromDB } from './utils/db';
-import { initFirebase, isFirebaseInitialized, isStorageInitialized, subscribeToUsers, subscribeToExpenses, subscribeToItinerary, subscribeToPhotos, syncAddUser, syncRemoveUser, syncAddExpense, syncDeleteExpense, syncUpdateItinerary, syncDeleteItinerary, uploadPhotoToCloud, deletePhotoFromCloud, YOUR_FIREBASE_CONFIG } from './services/firebase';
+import { ActivityView } from './views/ActivityView';
+import { clearPhotosFromDB } from './utils/db';
+import { runLocalMigrations } from './utils/migrations';
+import { RateState, getRateState, subscribeRates, refreshRates, setManualRate } from './services/exchangeRates';
+import { loadTrips, saveTrips, loadActiveTripId, saveActiveTripId, createTripId, getTripRangeError } from './utils/trips';
+import { parseInviteFromUrl, parseInviteLink, clearInviteFromUrl, normalizeInviteCode, validateInvite } from './utils/invites';
+import { initFirebase, isFirebaseInitialized, fetchTrip, fetchInvite, setActivityActor, YOUR_FIREBASE_CONFIG } from './services/firebase';
+import { TripStore } from './services/tripStore';
+import { startOutbox, flushOutbox } from './services/outbox';
+import { TripArchive, buildTripArchive, importTripArchive } from './utils/tripArchive';
+import { downloadBlob, toFileSlug } from './utils/download';
+import { ImportTarget } from './components/TripBackupModal';
+import { createLocalTripStore } from './services/localTripStore';
+import { createFirestoreTripStore } from './services/firestoreTripStore';
+import { LocalOnlyRecords, findLocalOnlyRecords, isEmptySelection, pushLocalRecords } from './services/cloudMerge';
+import { CloudMergeModal } from './components/CloudMergeModal';
 
 interface UserData {
   name: string;
   avatar: string | null;
 }
 
-// Define safely outside component to avoid recreation
-const safeMigrateExpenses = (items: any[]): ExpenseItem[] => {
-  if (!Array.isArray(items)) return [];
-  return items.map(item => {
-    // Defensive check for payer
-    const payer = item.payer || 'Me';
-    // Fallback logic for splitBy
-    const splitBy = Array.isArray(item.splitBy) && item.splitBy.length > 0
-        ? item.splitBy 
-        : (item.isShared ? DEFAULT_TRIP_USERS : [payer]);
-    
-    return {
-      ...item,
-      payer,
-      splitBy
-    };
-  });
-};
-
 const App: React.FC = () => {
   const [currentTab, setCurrentTab] = useState<Tab>('plan');
   const [isCloudConnected, setIsCloudConnected] = useState(false);
+  const [isBooted, setIsBooted] = useState(false);
+
+  // --- TRIP STATE ---
+  const [trips, setTrips] = useState<Trip[]>(loadTrips);
+  const [activeTripId, setActiveTripIdState] = useState<string>(loadActiveTripId);
+  const activeTrip = trips.find(t => t.id === activeTripId) || trips[0] || DEFAULT_TRIP;
+  // Trip whose data is currently held in state (the passenger list has arrived from the store)
+  const [loadedTripId, setLoadedTripId] = useState<string | null>(null);
+
+  // Invite link (?invite=CODE&trip=ID) state, shown on the check-in screen
+  const [isInvited, setIsInvited] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+
+  // Local-mode records offered for upload after connecting to the cloud
+  const [cloudMerge, setCloudMerge] = useState<{ trip: Trip; records: LocalOnlyRecords } | null>(null);
   
   // User State - Added try-catch and extra validation
   const [user, setUser] = useState<UserData | null>(() => {
@@ -57,43 +67,33 @@ const App: React.FC = () => {
   const [tripUsers, setTripUsers] = useState<string[]>(DEFAULT_TRIP_USERS);
   const [itinerary, setItinerary] = useState<ItineraryItem[]>([]);
   const [expenses, setExpenses] = useState<ExpenseItem[]>([]);
+  const [settlements, setSettlements] = useState<SettlementPayment[]>([]);
   const [photos, setPhotos] = useState<Photo[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [budget, setBudget] = useState<TripBudget>({});
+  const [profiles, setProfiles] = useState<Record<string, MemberProfile>>({});
   
-  // Exchange Rate State
-  const [exchangeRate, setExchangeRate] = useState<number>(() => {
-    try {
-      const savedRate = localStorage.getItem('seoul-exchange-rate');
-      const parsed = savedRate ? parseFloat(savedRate) : 0.0235;
-      return isNaN(parsed) ? 0.0235 : parsed;
-    } catch { return 0.0235; }
-  });
+  // Exchange rates come from the rate service (cached table first, then a live refresh on mount)
+  const [rateState, setRateState] = useState<RateState>(getRateState);
+  const rates = rateState.rates;
+  const exchangeRate = rates.TWD;
 
-  // Fetch Live Exchange Rate on mount
   useEffect(() => {
-    const fetchRate = async () => {
-      try {
-        const res = await fetch('https://api.exchangerate-api.com/v4/latest/KRW');
-        const data = await res.json();
-        if (data && data.rates && data.rates.TWD) {
-           const rate = data.rates.TWD;
-           setExchangeRate(rate);
-           localStorage.setItem('seoul-exchange-rate', rate.toString());
-        }
-      } catch (e) {
-        console.warn("Failed to fetch exchange rate, using default/saved.", e);
-      }
-    };
-    fetchRate();
+    const unsubscribe = subscribeRates(setRateState);
+    refreshRates();
+    return unsubscribe;
   }, []);
 
-  const handleRateChange = (newRate: number) => {
-    setExchangeRate(newRate);
-    localStorage.setItem('seoul-exchange-rate', newRate.toString());
+  const handleRateChange = (from: string, to: string, rate: number) => {
+    setManualRate(from, to, rate);
   };
 
 
   // --- INITIALIZATION ---
   useEffect(() => {
+    // Upgrade data saved by older versions before any store reads it
+    runLocalMigrations();
+
     let connected = false;
 
     // 1. Priority: Check if User added keys in source code (YOUR_FIREBASE_CONFIG)
@@ -121,88 +121,83 @@ const App: React.FC = () => {
         }
     }
     
-    // 3. If NOT connected to cloud, Load Local Data
-    if (!connected) {
-      loadLocalData();
-    }
+    setIsBooted(true);
   }, []);
 
-  const loadLocalData = () => {
-     try {
-       const u = localStorage.getItem('seoul-trip-users');
-       if(u) {
-          const parsed = JSON.parse(u);
-          if (Array.isArray(parsed)) setTripUsers(parsed);
-       }
-
-       const i = localStorage.getItem('seoul-trip-itinerary');
-       if(i) {
-          const parsed = JSON.parse(i);
-          if (Array.isArray(parsed)) setItinerary(parsed);
-       }
-       
-       const e = localStorage.getItem('seoul-tool-expenses');
-       if(e) {
-          try {
-            const parsed = JSON.parse(e);
-            setExpenses(safeMigrateExpenses(parsed));
-          } catch(err) {
-            console.error("Error migrating expenses", err);
-            setExpenses([]);
-          }
-       }
-
-       getPhotosFromDB().then(setPhotos);
-     } catch(e) {
-        console.error("Error loading local data", e);
-     }
-  };
-
-  // --- CLOUD SYNC SUBSCRIPTIONS ---
+  // Join the trip from an invite link once the cloud connection is settled
   useEffect(() => {
-    if (!isCloudConnected) return;
-    
-    // Subscribe to Firestore Data
-    const unsubUsers = subscribeToUsers(setTripUsers);
-    const unsubExpenses = subscribeToExpenses((data) => {
-        // Ensure incoming cloud data also gets migrated if missing splitBy
-        setExpenses(safeMigrateExpenses(data));
+    if (!isBooted) return;
+    const pending = parseInviteFromUrl(window.location.search);
+    if (!pending) return;
+    clearInviteFromUrl();
+
+    handleJoinTrip(pending.code, pending.tripId, pending.config).then(error => {
+      if (!error) return;
+      if (user) alert(error);
+      else setInviteError(error);
     });
-    const unsubItinerary = subscribeToItinerary(setItinerary);
-    
-    // Subscribe to Photos ONLY if Storage is available
-    let unsubPhotos = () => {};
-    if (isStorageInitialized()) {
-        unsubPhotos = subscribeToPhotos(setPhotos);
-    } else {
-        // Fallback: If cloud is connected (DB) but Storage is not, use Local Photos
-        getPhotosFromDB().then(setPhotos);
-    }
+  }, [isBooted]);
 
-    return () => {
-      unsubUsers();
-      unsubExpenses();
-      unsubItinerary();
-      unsubPhotos();
-    };
+  // Cloud writes are logged under the checked-in passenger's name
+  useEffect(() => {
+    setActivityActor(user?.name || 'Someone');
+  }, [user?.name]);
+
+  // Replay cloud writes queued while offline (or left over from a previous session)
+  useEffect(() => {
+    if (!isCloudConnected) return;
+    return startOutbox();
   }, [isCloudConnected]);
 
+  // --- DATA STORE ---
+  // Everything below talks to the store; only this choice knows where the data lives.
+  const openStore = (tripId: string): TripStore => {
+    return isCloudConnected ? createFirestoreTripStore(tripId) : createLocalTripStore(tripId);
+  };
+
+  const store = useMemo<TripStore | null>(() => {
+    if (!isBooted) return null;
+    return openStore(activeTrip.id);
+  }, [isBooted, isCloudConnected, activeTrip.id]);
+
+  useEffect(() => {
+    if (!store) return;
+    const tripId = store.tripId;
+
+    store.migrate().catch(e => console.error("Trip migration failed", e));
+
+    const unsubs = [
+      store.subscribeUsers((users) => {
+        setTripUsers(users);
+        setLoadedTripId(tripId);
+      }),
+      store.subscribeExpenses(setExpenses),
+      store.subscribeSettlements(setSettlements),
+      store.subscribeItinerary(setItinerary),
+      store.subscribePhotos(setPhotos),
+      store.subscribeActivity(setActivity),
+      store.subscribeBudget(setBudget),
+      store.subscribeProfiles(setProfiles),
+    ];
+    return () => unsubs.forEach(unsub => unsub());
+  }, [store]);
+
   // --- CRITICAL FIX: Announce Self on Connect ---
   useEffect(() => {
-    if (isCloudConnected && user?.name) {
+    if (store?.isShared && user?.name) {
        const timer = setTimeout(() => {
-          syncAddUser(user.name);
+          store.addUser(user.name);
           // Also cleanup 'Me' from cloud if it's there
-          syncRemoveUser('Me');
+          store.removeUser('Me');
        }, 1500);
        return () => clearTimeout(timer);
     }
-  }, [isCloudConnected, user?.name]);
+  }, [store, user?.name]);
 
   // --- NEW: AUTO-KICK LOGIC ---
   // If cloud is connected, and we have a valid list, but I am NOT in it -> Logout.
   useEffect(() => {
-    if (isCloudConnected && user?.name && tripUsers.length > 0) {
+    if (store?.isShared && user?.name && tripUsers.length > 0 && loadedTripId === activeTrip.id) {
       
       const amIInList = tripUsers.includes(user.name);
       
@@ -224,7 +219,7 @@ const App: React.FC = () => {
         return () => clearTimeout(timer);
       }
     }
-  }, [tripUsers, isCloudConnected, user?.name]);
+  }, [tripUsers, store, user?.name, loadedTripId, activeTrip.id]);
 
 
   // --- LOCAL PERSISTENCE ---
@@ -240,119 +235,222 @@ const App: React.FC = () => {
     }
   }, [user]);
 
-  useEffect(() => {
-    if (!isCloudConnected && itinerary.length > 0) 
-      localStorage.setItem('seoul-trip-itinerary', JSON.stringify(itinerary));
-  }, [itinerary, isCloudConnected]);
+  const isTripLoaded = loadedTripId === activeTrip.id;
 
+  // Keep the trip registry's member list in step with the live passenger list
   useEffect(() => {
-    if (!isCloudConnected && expenses.length > 0)
-      localStorage.setItem('seoul-tool-expenses', JSON.stringify(expenses));
-  }, [expenses, isCloudConnected]);
+    if (!isTripLoaded) return;
+    setTrips(prev => prev.map(t => 
+      t.id === activeTrip.id && t.members.join('|') !== tripUsers.join('|') ? { ...t, members: tripUsers } : t
+    ));
+  }, [tripUsers, isTripLoaded]);
 
-  useEffect(() => {
-    if (!isCloudConnected && tripUsers.length > 0)
-      localStorage.setItem('seoul-trip-users', JSON.stringify(tripUsers));
-  }, [tripUsers, isCloudConnected]);
+  useEffect(() => saveTrips(trips), [trips]);
+  useEffect(() => saveActiveTripId(activeTrip.id), [activeTrip.id]);
 
 
+  // --- TRIPS ---
+  const handleSwitchTrip = (tripId: string) => {
+    if (tripId === activeTrip.id) return;
+    // Drop the previous trip's data; the load/subscribe effects refill state for the new trip.
+    setLoadedTripId(null);
+    setTripUsers(DEFAULT_TRIP_USERS);
+    setItinerary([]);
+    setExpenses([]);
+    setSettlements([]);
+    setPhotos([]);
+    setActivity([]);
+    setBudget({});
+    setProfiles({});
+    setActiveTripIdState(tripId);
+  };
+
+  const handleCreateTrip = (details: Omit<Trip, 'id' | 'members'>) => {
+    const members = user?.name ? [user.name] : DEFAULT_TRIP_USERS;
+    const trip: Trip = { ...details, id: createTripId(details.name), members };
+    setTrips(prev => [...prev, trip]);
+    openStore(trip.id).saveTrip(trip);
+    handleSwitchTrip(trip.id);
+  };
+
+  // Validate an invite code (or a pasted invite link) and switch to its trip. Resolves to an error message, or null on success.
+  // A link carries the cloud config, so it also connects a device that has never been set up.
+  const handleJoinTrip = async (rawCode: string, expectedTripId?: string | null, config?: FirebaseConfig | null): Promise<string | null> => {
+    const link = parseInviteLink(rawCode);
+    const code = link ? link.code : normalizeInviteCode(rawCode);
+    const tripId = expectedTripId ?? link?.tripId;
+    const cloudConfig = config || link?.config;
+    if (!isFirebaseInitialized() && cloudConfig && initFirebase(cloudConfig)) {
+      localStorage.setItem('seoul-firebase-config', JSON.stringify(cloudConfig));
+    }
+    if (!isFirebaseInitialized()) {
+      return 'This device is not connected to cloud sync yet. Open the invite link or scan its QR code (or paste the whole link here) and it will connect for you.';
+    }
+    try {
+      const invite = await fetchInvite(code);
+      const error = validateInvite(invite, tripId);
+      if (error || !invite) return error;
+
+      const trip = await fetchTrip(invite.tripId);
+      if (!trip) return 'The invited trip no longer exists.';
+      const rangeError = getTripRangeError(trip);
+      if (rangeError) return `The invited trip has invalid dates. ${rangeError}`;
+
+      setTrips(prev => prev.some(t => t.id === trip.id)
+        ? prev.map(t => t.id === trip.id ? { ...t, ...trip } : t)
+        : [...prev, trip]);
+      if (!isCloudConnected) {
+        offerCloudMerge(activeTrip);
+        setIsCloudConnected(true);
+      }
+      handleSwitchTrip(trip.id);
+      setIsInvited(true);
+      setInviteError('');
+      return null;
+    } catch (e) {
+      console.error("Join via invite failed", e);
+      return 'Could not check the invite. Please check your connection and try again.';
+    }
+  };
+
+  // --- BACKUP ---
+  const tripSnapshot = { trip: activeTrip, users: tripUsers, itinerary, expenses, settlements, photos };
+
+  const handleExportTrip = async (): Promise<string> => {
+    const { blob, missingPhotos, missingReceipts } = await buildTripArchive(tripSnapshot, user?.name);
+    downloadBlob(blob, `${toFileSlug(activeTrip.name)}-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+    const missing = [
+      missingPhotos > 0 ? `${missingPhotos} cloud photos could not be downloaded` : '',
+      missingReceipts > 0 ? `${missingReceipts} receipts are not on this device` : '',
+    ].filter(Boolean);
+    return missing.length > 0
+      ? `Backup saved. ${missing.join(' and ')}, so they were left out.`
+      : 'Backup saved.';
+  };
+
+  const handleImportTrip = async (archive: TripArchive, target: ImportTarget, overwrite: boolean) => {
+    if (!store) throw new Error("Store not ready");
+    if (target === 'current') {
+      return importTripArchive(archive, store, tripSnapshot, overwrite);
+    }
+
+    // Restore as its own trip. Reuse the original id only on this device and only if it's free.
+    const source = archive.manifest.trip;
+    const canReuseId = !isCloudConnected && !trips.some(t => t.id === source.id);
+    const trip: Trip = { ...source, id: canReuseId ? source.id : createTripId(source.name), members: archive.manifest.users };
+    const targetStore = openStore(trip.id);
+    await targetStore.saveTrip(trip);
+    const report = await importTripArchive(archive, targetStore, { trip, users: [], itinerary: [], expenses: [], settlements: [], photos: [] }, true);
+    setTrips(prev => [...prev, trip]);
+    handleSwitchTrip(trip.id);
+    return report;
+  };
+
+  // --- CLOUD MERGE ---
+  // Switching from local mode hides what was saved on this device; offer to upload it instead.
+  const offerCloudMerge = async (trip: Trip) => {
+    try {
+      const records = await findLocalOnlyRecords(trip.id);
+      if (!isEmptySelection(records)) setCloudMerge({ trip, records });
+    } catch (e) {
+      console.error("Could not compare local data with the cloud", e);
+    }
+  };
+
+  const handleCloudMergeUpload = (selection: LocalOnlyRecords) => {
+    if (!cloudMerge) throw new Error("Nothing to merge");
+    return pushLocalRecords(cloudMerge.trip, selection);
+  };
+
   // --- HANDLERS ---
   const handleManualRefreshCloud = () => {
     if (isFirebaseInitialized()) {
+      if (!isCloudConnected) offerCloudMerge(activeTrip);
       setIsCloudConnected(true);
     }
   };
 
   const handleAddTripUser = (name: string) => {
-    if (!name.trim()) return;
-    if (isCloudConnected) {
-      syncAddUser(name);
-    } else {
-      if (!tripUsers.includes(name)) setTripUsers(prev => [...prev, name]);
-    }
+    if (!name.trim() || !store) return;
+    store.addUser(name);
   };
 
   const handleRemoveTripUser = (name: string) => {
     // NOTE: Removed the 'Me' guard here to allow cleanup during login
-    if (isCloudConnected) {
-      syncRemoveUser(name);
-    } else {
-      setTripUsers(prev => prev.filter(u => u !== name));
-    }
+    store?.removeUser(name);
   };
 
+  // Who changed a record and when; the revision is left as loaded so the store can detect conflicts
+  const stampEdit = <T extends Revisioned>(item: T): T => ({ ...item, updatedAt: Date.now(), updatedBy: user?.name || 'Me' });
+
   // 1. Itinerary Wrapper
   const handleItineraryChange = (action: 'add' | 'update' | 'delete', item: ItineraryItem) => {
-     if (isCloudConnected) {
-        if (action === 'delete') syncDeleteItinerary(item.id);
-        else syncUpdateItinerary(item);
-     } else {
-        setItinerary(prev => {
-           if (action === 'delete') return prev.filter(i => i.id !== item.id);
-           if (action === 'add') return [...prev, item];
-           return prev.map(i => i.id === item.id ? item : i);
-        });
-     }
+     if (!store) return;
+     if (action === 'delete') store.deleteItinerary(item.id);
+     else if (action === 'add') store.addItinerary(stampEdit(item));
+     else store.updateItinerary(stampEdit(item));
+  };
+
+  // 1b. Settlement payments (recorded or removed, never edited)
+  const handleSettlementChange = (action: 'add' | 'delete', payment: SettlementPayment) => {
+    if (!store) return;
+    if (action === 'delete') store.deleteSettlement(payment.id);
+    else store.addSettlement(stampEdit(payment));
   };
 
   // 2. Expenses Wrapper (With Optimistic UI)
-  const handleExpensesChange = (action: 'add' | 'delete', item: ExpenseItem) => {
+  const handleExpensesChange = (action: 'add' | 'update' | 'delete', item: ExpenseItem) => {
+    if (!store) return;
     const finalizedItem = {
-        ...item,
+        ...stampEdit(item),
         splitBy: item.splitBy && item.splitBy.length > 0 ? item.splitBy : (item.isShared ? tripUsers : [item.payer])
     };
 
-    // OPTIMISTIC UPDATE: Update local state IMMEDIATELY, regardless of cloud connection.
+    // OPTIMISTIC UPDATE: Update local state IMMEDIATELY, regardless of where the store lives.
     // This ensures SettleView recalculates instantly without waiting for network round-trip.
     setExpenses(prev => {
         if (action === 'delete') return prev.filter(e => e.id !== finalizedItem.id);
+        if (action === 'update') return prev.map(e => e.id === finalizedItem.id ? finalizedItem : e);
         // Avoid adding duplicate if it already exists (prevent race condition flickering)
         if (prev.some(e => e.id === finalizedItem.id)) return prev;
         return [...prev, finalizedItem];
     });
 
-    // Then Sync to Cloud if connected
-    if (isCloudConnected) {
-       if (action === 'delete') syncDeleteExpense(finalizedItem.id);
-       else syncAddExpense(finalizedItem);
+    if (action === 'delete') store.deleteExpense(finalizedItem.id);
+    else if (action === 'update') store.updateExpense(finalizedItem);
+    else store.addExpense(finalizedItem);
+
+    // A receipt that was removed or replaced (or whose expense is gone) is deleted from storage
+    const previousReceipt = expenses.find(e => e.id === finalizedItem.id)?.receipt;
+    if (previousReceipt && (action === 'delete' || previousReceipt !== finalizedItem.receipt)) {
+      store.deleteReceipt(previousReceipt).catch(e => console.warn("Could not delete old receipt", e));
     }
   };
 
+  // Plan card "add expense" shortcut: jump to the expense form pre-filled for that activity
+  const [expenseDraft, setExpenseDraft] = useState<ExpenseDraft | null>(null);
+  const handleAddExpenseForPlan = (item: ItineraryItem) => {
+    setExpenseDraft({ name: item.title, date: item.date, time: item.time, category: item.category, itineraryItemId: item.id });
+    setCurrentTab('tool');
+  };
+
   // 3. Photos Wrapper
   const handleSavePhoto = async (newPhoto: Photo) => {
+    if (!store) return;
     const photoWithAuthor = { 
         ...newPhoto, 
-        author: user?.name || 'Anonymous' 
+        author: user?.name || 'Anonymous',
+        tripId: activeTrip.id
     };
-
-    let savedToCloud = false;
-    
-    if (isCloudConnected && isStorageInitialized()) {
-      try {
-        await uploadPhotoToCloud(photoWithAuthor);
-        savedToCloud = true;
-      } catch (e) {
-        console.warn("Cloud upload failed, falling back to local", e);
-      }
-    }
-
-    if (!savedToCloud) {
-       setPhotos(prev => [photoWithAuthor, ...prev]);
-       await addPhotoToDB(photoWithAuthor);
-    }
+    await store.addPhoto(photoWithAuthor);
   };
 
   const handleDeletePhoto = async (id: string) => {
     const photo = photos.find(p => p.id === id);
-    if (!photo) return;
+    if (!photo || !store) return;
 
     try {
-      if (isCloudConnected && isStorageInitialized() && photo.uploaded) {
-        await deletePhotoFromCloud(photo);
-      } else {
-        setPhotos(prev => prev.filter(p => p.id !== id));
-        await deletePhotoFromDB(id);
-      }
+      await store.deletePhoto(photo);
     } catch (e) {
       console.error("Delete photo failed", e);
     }
@@ -368,25 +466,18 @@ const App: React.FC = () => {
     } catch (e) { console.error("Quota exceeded on login", e); }
     
     // CLEANUP: If "Me" exists in the list, remove it and add the real user
-    if (isCloudConnected) {
-        syncAddUser(name);
-        syncRemoveUser('Me');
-    } else {
-        setTripUsers(prev => {
-            const listWithoutMe = prev.filter(u => u !== 'Me');
-            if (!listWithoutMe.includes(name)) {
-                return [...listWithoutMe, name];
-            }
-            return listWithoutMe;
-        });
+    if (store) {
+        store.addUser(name);
+        store.removeUser('Me');
     }
   };
 
   const handleDeleteUser = async () => {
     // 1. If connected to cloud, remove my name from the global list
-    if (isCloudConnected && user?.name) {
+    if (store?.isShared && user?.name) {
       try {
-        await syncRemoveUser(user.name);
+        await store.removeUser(user.name);
+        await flushOutbox(); // Try to deliver it before the reload; otherwise it replays on next start
       } catch (e) {
         console.error("Failed to remove user from cloud", e);
       }
@@ -398,6 +489,7 @@ const App: React.FC = () => {
     setUser(null);
     setItinerary([]);
     setExpenses([]);
+    setSettlements([]);
     setPhotos([]);
     setTripUsers(DEFAULT_TRIP_USERS);
     setIsCloudConnected(false);
@@ -413,30 +505,71 @@ const App: React.FC = () => {
 
   const renderView = () => {
     switch (currentTab) {
-      case 'settle': return <SettleView expenses={expenses} tripUsers={tripUsers} exchangeRate={exchangeRate} />;
+      case 'settle': return <SettleView
+          expenses={expenses}
+          tripUsers={tripUsers}
+          rates={rates}
+          trip={activeTrip}
+          budget={budget}
+          onSaveBudget={(next) => store ? store.saveBudget(next) : Promise.resolve()}
+          settlements={settlements}
+          onAddSettlement={(payment) => handleSettlementChange('add', payment)}
+          onDeleteSettlement={(id) => handleSettlementChange('delete', { id } as SettlementPayment)}
+          profiles={profiles}
+          onSaveProfile={(name, profile) => store ? store.saveProfile(name, profile) : Promise.resolve()}
+        />;
       case 'tool': 
         return <ToolView 
+          key={activeTrip.id}
+          tripId={activeTrip.id}
           expenses={expenses} 
+          itinerary={itinerary}
+          draft={expenseDraft}
+          onDraftUsed={() => setExpenseDraft(null)}
           onAdd={(item) => handleExpensesChange('add', item)}
+          onUpdate={(item) => handleExpensesChange('update', item)}
           onDelete={(id) => handleExpensesChange('delete', { id } as ExpenseItem)}
           tripUsers={tripUsers}
+          profiles={profiles}
+          trip={activeTrip}
           exchangeRate={exchangeRate}
+          rateState={rateState}
           onRateChange={handleRateChange}
+          onRefreshRates={() => refreshRates()}
+          budget={budget}
+          onSaveReceipt={(id, dataUrl) => store ? store.saveReceipt(id, dataUrl) : Promise.reject(new Error('No trip store'))}
         />;
       case 'plan': 
         return <PlanView 
+          key={activeTrip.id}
+          trip={activeTrip}
           items={itinerary} 
+          expenses={expenses}
           onAdd={(item) => handleItineraryChange('add', item)}
           onUpdate={(item) => handleItineraryChange('update', item)}
           onDelete={(id) => handleItineraryChange('delete', { id } as ItineraryItem)}
+          onAddExpense={handleAddExpenseForPlan}
         />;
-      case 'photo': return <PhotoView user={user} onSavePhoto={handleSavePhoto} />;
+      case 'photo': return <PhotoView user={user} trip={activeTrip} onSavePhoto={handleSavePhoto} />;
       case 'library': return <LibraryView 
           photos={photos} 
           onDeletePhoto={handleDeletePhoto} 
-          isSharedGallery={isCloudConnected && isStorageInitialized()} 
+          isSharedGallery={!!store?.sharesPhotos} 
       />;
-      default: return <SettleView expenses={expenses} tripUsers={tripUsers} exchangeRate={exchangeRate} />;
+      case 'activity': return <ActivityView entries={activity} tripUsers={tripUsers} isShared={!!store?.isShared} />;
+      default: return <SettleView
+          expenses={expenses}
+          tripUsers={tripUsers}
+          rates={rates}
+          trip={activeTrip}
+          budget={budget}
+          onSaveBudget={(next) => store ? store.saveBudget(next) : Promise.resolve()}
+          settlements={settlements}
+          onAddSettlement={(payment) => handleSettlementChange('add', payment)}
+          onDeleteSettlement={(id) => handleSettlementChange('delete', { id } as SettlementPayment)}
+          profiles={profiles}
+          onSaveProfile={(name, profile) => store ? store.saveProfile(name, profile) : Promise.resolve()}
+        />;
     }
   };
 
@@ -444,7 +577,13 @@ const App: React.FC = () => {
     return (
        <div className="min-h-screen bg-gray-200 font-sans text-retro-text flex justify-center">
         <div className="w-full max-w-md min-h-screen bg-retro-bg relative shadow-2xl overflow-hidden flex flex-col border-x border-black/5">
-           <LoginView onLogin={handleLogin} />
+           <LoginView 
+              trip={activeTrip} 
+              onLogin={handleLogin} 
+              isInvited={isInvited}
+              inviteError={inviteError}
+              onJoinWithCode={handleJoinTrip}
+           />
         </div>
       </div>
     );
@@ -464,10 +603,27 @@ const App: React.FC = () => {
             onRemoveUser={handleRemoveTripUser}
             isCloudConnected={isCloudConnected}
             onRefreshCloud={handleManualRefreshCloud}
+            trips={trips}
+            activeTrip={activeTrip}
+            onSwitchTrip={handleSwitchTrip}
+            onCreateTrip={handleCreateTrip}
+            onJoinTrip={handleJoinTrip}
+            tripSnapshot={tripSnapshot}
+            onExportTrip={handleExportTrip}
+            onImportTrip={handleImportTrip}
+            onOpenActivity={() => setCurrentTab('activity')}
           />
           {renderView()}
         </main>
         <NavBar currentTab={currentTab} onTabChange={setCurrentTab} />
+        {cloudMerge && (
+          <CloudMergeModal
+            trip={cloudMerge.trip}
+            records={cloudMerge.records}
+            onUpload={handleCloudMergeUpload}
+            onClose={() => setCloudMerge(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, PiggyBank } from 'lucide-react';
+import { Category, TripBudget } from '../types';
+import { EXPENSE_CATEGORIES } from '../utils/categories';
+import { cleanBudget } from '../utils/budget';
+import { BASE_CURRENCY, RateTable, convert, convertFromBase, roundToCurrency, getCurrency } from '../utils/currency';
+
+interface BudgetModalProps {
+  budget: TripBudget;
+  // Limits are typed in this currency and stored in KRW
+  currency: string;
+  rates: RateTable;
+  onSave: (budget: TripBudget) => Promise<void>;
+  onClose: () => void;
+}
+
+export const BudgetModal: React.FC<BudgetModalProps> = ({ budget, currency, rates, onSave, onClose }) => {
+  const toInput = (amountKRW?: number) =>
+    amountKRW ? roundToCurrency(convertFromBase(amountKRW, currency, rates), currency).toString() : '';
+  const fromInput = (value: string) => {
+    const amount = parseFloat(value);
+    return amount > 0 ? Math.round(convert(amount, currency, BASE_CURRENCY, rates) ?? 0) : undefined;
+  };
+
+  const [total, setTotal] = useState(() => toInput(budget.total));
+  const [perPersonDaily, setPerPersonDaily] = useState(() => toInput(budget.perPersonDaily));
+  const [perCategory, setPerCategory] = useState<Partial<Record<Category, string>>>(() =>
+    Object.fromEntries(EXPENSE_CATEGORIES.map(c => [c.id, toInput(budget.perCategory?.[c.id])]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(cleanBudget({
+        total: fromInput(total),
+        perPersonDaily: fromInput(perPersonDaily),
+        perCategory: Object.fromEntries(EXPENSE_CATEGORIES.map(c => [c.id, fromInput(perCategory[c.id] || '')])),
+      }));
+      onClose();
+    } catch (e) {
+      console.error("Saving budget failed", e);
+      setError('Could not save the budget. Try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const symbol = getCurrency(currency).symbol;
+  const inputClass = "w-full bg-white border-2 border-gray-200 rounded-xl pl-9 pr-3 py-2 text-sm font-mono font-bold text-retro-text focus:outline-none focus:border-retro-accent";
+  const amountInput = (value: string, onChange: (value: string) => void, placeholder = 'No limit') => (
+    <div className="relative">
+      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[10px] font-black text-gray-400">{symbol}</span>
+      <input type="number" inputMode="decimal" min="0" value={value} placeholder={placeholder} onChange={e => onChange(e.target.value)} className={inputClass} />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <PiggyBank size={18} />
+          <h3 className="text-base font-pixel">BUDGET</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-4">
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Whole trip</label>
+            {amountInput(total, setTotal)}
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Per person, per day</label>
+            {amountInput(perPersonDaily, setPerPersonDaily)}
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Per category (whole trip)</label>
+            {EXPENSE_CATEGORIES.map(c => (
+              <div key={c.id} className="flex items-center gap-2">
+                <span className="w-12 text-[10px] font-black text-gray-400">{c.label}</span>
+                <div className="flex-1">
+                  {amountInput(perCategory[c.id] || '', value => setPerCategory(prev => ({ ...prev, [c.id]: value })))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[9px] text-gray-400 font-bold leading-tight">
+            Shared with everyone on the trip. Leave a field empty for no limit.
+          </p>
+          {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="mt-4 w-full bg-retro-text text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform disabled:opacity-50"
+        >
+          SAVE BUDGET
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { X, UploadCloud, CheckCircle, AlertCircle, Check } from 'lucide-react';
+import { Trip } from '../types';
+import { LocalOnlyRecords, CloudMergeReport, isEmptySelection } from '../services/cloudMerge';
+import { formatMoney } from '../utils/currency';
+
+interface CloudMergeModalProps {
+  trip: Trip;
+  records: LocalOnlyRecords | null;
+  onUpload: (selection: LocalOnlyRecords) => Promise<CloudMergeReport>;
+  onClose: () => void;
+}
+
+type Kind = keyof LocalOnlyRecords;
+
+// Each local-only record as a checkbox row, keyed "kind:id"
+const toRows = (records: LocalOnlyRecords) => [
+  ...records.users.map(name => ({ kind: 'users' as Kind, id: name, label: name, detail: 'Passenger' })),
+  ...records.itinerary.map(item => ({ kind: 'itinerary' as Kind, id: item.id, label: item.title, detail: `Plan • ${item.date} ${item.time}` })),
+  ...records.expenses.map(item => ({ kind: 'expenses' as Kind, id: item.id, label: item.name, detail: `Expense • ${formatMoney(item.cost, item.currency)} by ${item.payer}` })),
+  ...records.settlements.map(p => ({ kind: 'settlements' as Kind, id: p.id, label: `${p.from} → ${p.to}`, detail: `Payment • ${formatMoney(p.amount, p.currency)}` })),
+  ...records.photos.map(photo => ({ kind: 'photos' as Kind, id: photo.id, label: photo.date, detail: `Photo${photo.author ? ` by ${photo.author}` : ''}` })),
+];
+
+export const CloudMergeModal: React.FC<CloudMergeModalProps> = ({ trip, records, onUpload, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<CloudMergeReport | null>(null);
+  const [error, setError] = useState('');
+
+  // Everything is selected by default
+  useEffect(() => {
+    setSelected(new Set(records ? toRows(records).map(r => `${r.kind}:${r.id}`) : []));
+    setReport(null);
+    setError('');
+  }, [records]);
+
+  if (!records) return null;
+
+  const rows = toRows(records);
+  const toggle = (key: string) => setSelected(prev => {
+    const next = new Set(prev);
+    next.has(key) ? next.delete(key) : next.add(key);
+    return next;
+  });
+
+  const handleUpload = async () => {
+    const isPicked = (kind: Kind, id: string) => selected.has(`${kind}:${id}`);
+    const selection: LocalOnlyRecords = {
+      users: records.users.filter(name => isPicked('users', name)),
+      itinerary: records.itinerary.filter(item => isPicked('itinerary', item.id)),
+      expenses: records.expenses.filter(item => isPicked('expenses', item.id)),
+      settlements: records.settlements.filter(p => isPicked('settlements', p.id)),
+      photos: records.photos.filter(photo => isPicked('photos', photo.id)),
+    };
+    if (isEmptySelection(selection)) return onClose();
+
+    setIsBusy(true);
+    setError('');
+    try {
+      setReport(await onUpload(selection));
+    } catch (e) {
+      console.error("Cloud merge failed", e);
+      setError('Upload stopped part-way. Anything not uploaded is still on this device.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-2 pb-3 border-b-2 border-dashed border-gray-300">
+          <UploadCloud size={18} />
+          <h3 className="text-base font-pixel">MOVE TO CLOUD</h3>
+        </div>
+
+        {report ? (
+          <div className="space-y-3 pt-2">
+            <div className="flex items-start gap-2 text-green-700 bg-green-50 border border-green-100 p-3 rounded-xl text-[10px] font-bold">
+              <CheckCircle size={12} className="shrink-0 mt-0.5" />
+              Uploaded {report.itinerary} plans, {report.expenses} expenses, {report.photos} photos{report.settlements ? `, ${report.settlements} payments` : ''}{report.users ? `, ${report.users} passengers` : ''}.
+            </div>
+            {report.failedPhotos > 0 && (
+              <div className="flex items-start gap-2 text-red-500 text-[10px] font-bold px-1">
+                <AlertCircle size={12} className="shrink-0 mt-0.5" /> {report.failedPhotos} photos could not be uploaded and stay on this device.
+              </div>
+            )}
+            <button onClick={onClose} className="w-full py-3 rounded-xl bg-retro-text text-white font-black text-xs uppercase">Done</button>
+          </div>
+        ) : (
+          <>
+            <p className="text-[10px] font-bold text-gray-500 leading-tight mb-3">
+              These were saved on this device before connecting and are not in "{trip.name}" yet. Pick what to share.
+            </p>
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-1.5">
+              {rows.map(row => {
+                const key = `${row.kind}:${row.id}`;
+                const isOn = selected.has(key);
+                return (
+                  <button
+                    key={key}
+                    onClick={() => toggle(key)}
+                    className={`w-full flex items-center gap-3 p-2.5 rounded-xl border-2 text-left transition-colors ${isOn ? 'bg-white border-retro-accent' : 'bg-white/50 border-transparent'}`}
+                  >
+                    <div className={`w-5 h-5 shrink-0 rounded-md flex items-center justify-center border-2 ${isOn ? 'bg-retro-accent border-retro-accent text-white' : 'border-gray-300'}`}>
+                      {isOn && <Check size={12} />}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-xs font-black text-retro-text truncate">{row.label}</div>
+                      <div className="text-[9px] font-bold text-gray-400 truncate">{row.detail}</div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 text-red-500 text-[10px] font-bold px-1 mt-2">
+                <AlertCircle size={12} className="shrink-0 mt-0.5" /> {error}
+              </div>
+            )}
+
+            <div className="flex gap-2 mt-4">
+              <button onClick={onClose} className="flex-1 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-black text-xs uppercase">Keep Local</button>
+              <button onClick={handleUpload} disabled={isBusy} className="flex-1 py-3 rounded-xl bg-retro-text text-white font-black text-xs uppercase active:scale-95 transition-transform">
+                {isBusy ? 'Uploading...' : `Upload ${selected.size}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { GitCompare } from 'lucide-react';
+import { Revisioned } from '../types';
+import { OutboxEntry, subscribeOutbox, resolveConflict } from '../services/outbox';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+  format?: (value: unknown) => string;
+}
+
+interface ConflictResolverProps {
+  tripId: string;
+  collection: 'itinerary' | 'expenses';
+  fields: ConflictField[];
+}
+
+const readField = (item: object, key: string): unknown => (item as Record<string, unknown>)[key];
+
+const formatValue = (field: ConflictField, value: unknown) => {
+  if (field.format) return field.format(value);
+  if (value === undefined || value === null || value === '') return '—';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const formatStamp = (item: Revisioned) => {
+  const who = item.updatedBy || 'Someone';
+  return item.updatedAt ? `${who} • ${new Date(item.updatedAt).toLocaleString()}` : who;
+};
+
+// Edits of this trip's records that collided with a newer cloud version, shown side by side
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ tripId, collection, fields }) => {
+  const [conflicts, setConflicts] = useState<OutboxEntry[]>([]);
+  const [busySeq, setBusySeq] = useState<number | null>(null);
+
+  useEffect(() => subscribeOutbox(state => {
+    setConflicts(state.conflicts.filter(e => e.tripId === tripId && e.collection === collection));
+  }), [tripId, collection]);
+
+  const handleResolve = async (entry: OutboxEntry, keep: 'mine' | 'theirs') => {
+    setBusySeq(entry.seq ?? null);
+    try {
+      await resolveConflict(entry, keep);
+    } finally {
+      setBusySeq(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {conflicts.map(entry => {
+        if (entry.action !== 'set' || !entry.conflict) return null;
+        const mine: Revisioned = entry.payload;
+        const theirs: Revisioned = entry.conflict;
+
+        return (
+          <div key={entry.seq} className="bg-orange-50 border-2 border-orange-200 rounded-2xl p-3 shadow-sm">
+            <div className="flex items-center gap-1.5 text-orange-700 text-[10px] font-black mb-2 uppercase tracking-wider">
+              <GitCompare size={12} /> Edit conflict
+            </div>
+
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-2 gap-y-1 text-[10px] font-bold bg-white rounded-xl p-2">
+              <div></div>
+              <div className="text-retro-text font-black">MINE</div>
+              <div className="text-retro-text font-black">THEIRS</div>
+              {fields.map(field => {
+                const a = formatValue(field, readField(mine, field.key));
+                const b = formatValue(field, readField(theirs, field.key));
+                const differs = a !== b;
+                return (
+                  <React.Fragment key={field.key}>
+                    <div className="text-gray-400 uppercase">{field.label}</div>
+                    <div className={`break-words ${differs ? 'text-blue-600 bg-blue-50 rounded px-1' : 'text-gray-600'}`}>{a}</div>
+                    <div className={`break-words ${differs ? 'text-orange-600 bg-orange-50 rounded px-1' : 'text-gray-600'}`}>{b}</div>
+                  </React.Fragment>
+                );
+              })}
+              <div className="text-gray-400 uppercase">By</div>
+              <div className="text-[9px] text-gray-400">{formatStamp(mine)}</div>
+              <div className="text-[9px] text-gray-400">{formatStamp(theirs)}</div>
+            </div>
+
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => handleResolve(entry, 'mine')}
+                disabled={busySeq === entry.seq}
+                className="flex-1 py-2 rounded-lg bg-blue-500 text-white text-[10px] font-black active:scale-95 transition-transform"
+              >
+                KEEP MINE
+              </button>
+              <button
+                onClick={() => handleResolve(entry, 'theirs')}
+                disabled={busySeq === entry.seq}
+                className="flex-1 py-2 rounded-lg bg-orange-500 text-white text-[10px] font-black active:scale-95 transition-transform"
+              >
+                USE THEIRS
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState, useRef } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, Copy } from 'lucide-react';
+import { ExpenseItem } from '../types';
+import { CSV_FIELDS, CsvField, CsvMapping, parseCsv, guessCsvMapping, buildCsvImport } from '../utils/csv';
+import { BASE_CURRENCY, RateTable, availableCurrencies, formatMoney } from '../utils/currency';
+
+interface CsvImportModalProps {
+  expenses: ExpenseItem[];
+  tripUsers: string[];
+  rates: RateTable;
+  defaultPayer: string;
+  onImport: (items: ExpenseItem[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'pick' | 'map' | 'review';
+
+// Bulk-load a card statement: pick a file, say which column is which, then untick duplicates and import
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ expenses, tripUsers, rates, defaultPayer, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('pick');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping([]));
+  const [payer, setPayer] = useState(tripUsers.includes(defaultPayer) ? defaultPayer : tripUsers[0]);
+  const [splitBy, setSplitBy] = useState<string[]>(tripUsers);
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
+  // Line numbers left out of the import (duplicates start unticked)
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length === 0) {
+        setError('This file has no rows.');
+        return;
+      }
+      setRows(parsed);
+      setFileName(file.name);
+      setMapping(guessCsvMapping(parsed[0]));
+      setStep('map');
+    } catch (err) {
+      console.error("Reading CSV failed", err);
+      setError('Could not read this file.');
+    }
+  };
+
+  const columnCount = Math.max(...rows.map(r => r.length), 0);
+  const columnLabel = (index: number) => hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`;
+  const sample = rows[hasHeader ? 1 : 0] || [];
+  const missingRequired = CSV_FIELDS.filter(f => f.required && mapping[f.id] < 0);
+
+  const preview = step === 'review'
+    ? buildCsvImport(rows, mapping, hasHeader, expenses, { payer, splitBy, currency, tripUsers, rates })
+    : [];
+  const selected = preview.filter(r => r.expense && !skipped.has(r.line));
+
+  const handleReview = () => {
+    if (missingRequired.length > 0 || splitBy.length === 0) return;
+    const rowsToCheck = buildCsvImport(rows, mapping, hasHeader, expenses, { payer, splitBy, currency, tripUsers, rates });
+    setSkipped(new Set(rowsToCheck.filter(r => r.duplicateOf).map(r => r.line)));
+    setStep('review');
+  };
+
+  const toggleRow = (line: number) => {
+    const next = new Set(skipped);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setSkipped(next);
+  };
+
+  const handleImport = () => {
+    onImport(selected.map(r => r.expense!));
+    onClose();
+  };
+
+  const selectClass = "flex-1 min-w-0 p-2 rounded-lg bg-white border-2 border-gray-200 text-[10px] font-bold text-gray-700 outline-none focus:border-[#00A86B]";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <FileSpreadsheet size={18} />
+          <h3 className="text-base font-pixel">IMPORT CSV</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-3">
+          {step === 'pick' && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-6 border-2 border-dashed border-gray-300 rounded-xl text-gray-500 text-xs font-bold hover:border-[#00A86B] hover:text-[#00A86B] transition-colors flex items-center justify-center gap-2"
+              >
+                <Upload size={14} /> CHOOSE A .CSV FILE
+              </button>
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+              <p className="text-[9px] text-gray-400 font-bold text-center leading-tight px-2">
+                A card statement or a spreadsheet export. You choose which column is which next.
+              </p>
+            </>
+          )}
+
+          {step === 'map' && (
+            <>
+              <div className="text-[10px] font-bold text-gray-500 truncate">{fileName} • {rows.length} rows</div>
+              <label className="flex items-center gap-2 text-[10px] font-bold text-gray-600">
+                <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+                First row is a header
+              </label>
+              {CSV_FIELDS.map(field => (
+                <div key={field.id} className="flex items-center gap-2">
+                  <span className="w-20 text-[10px] font-black text-gray-500 uppercase">{field.label}{field.required && '*'}</span>
+                  <select
+                    value={mapping[field.id]}
+                    onChange={e => setMapping({ ...mapping, [field.id]: Number(e.target.value) } as Record<CsvField, number>)}
+                    className={selectClass}
+                  >
+                    <option value={-1}>{field.required ? '— choose —' : '— not in file —'}</option>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <option key={i} value={i}>{columnLabel(i)}{sample[i] ? ` (${sample[i].slice(0, 16)})` : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div className="pt-2 border-t border-dashed border-gray-300 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-20 text-[10px] font-black text-gray-500 uppercase">Paid by</span>
+                  <select value={payer} onChange={e => setPayer(e.target.value)} className={selectClass}>
+                    {tripUsers.map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="w-20 text-[10px] font-black text-gray-500 uppercase">Currency</span>
+                  <select value={currency} onChange={e => setCurrency(e.target.value)} className={selectClass}>
+                    {availableCurrencies(rates).map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-start gap-2">
+                  <span className="w-20 text-[10px] font-black text-gray-500 uppercase pt-1">Split</span>
+                  <div className="flex-1 flex flex-wrap gap-1">
+                    {tripUsers.map(u => (
+                      <button
+                        key={u}
+                        onClick={() => setSplitBy(splitBy.includes(u) ? splitBy.filter(n => n !== u) : [...splitBy, u])}
+                        className={`px-2 py-1 rounded-lg text-[9px] font-black border-2 ${splitBy.includes(u) ? 'bg-[#00A86B] text-white border-[#00A86B]' : 'bg-white text-gray-400 border-gray-200'}`}
+                      >
+                        {u}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-[9px] text-gray-400 font-bold leading-tight">
+                  Used when the file has no such column. Every row is split evenly; edit any of them afterwards.
+                </p>
+              </div>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="text-[10px] font-bold text-gray-500">
+                {selected.length} to import
+                {preview.some(r => r.duplicateOf) && ' • possible duplicates are unticked'}
+              </div>
+              {preview.map(r => (
+                <div key={r.line} className={`flex items-start gap-2 p-2 rounded-lg bg-white border ${r.error ? 'border-red-100' : r.duplicateOf ? 'border-orange-200' : 'border-gray-100'}`}>
+                  {r.expense ? (
+                    <input type="checkbox" className="mt-0.5" checked={!skipped.has(r.line)} onChange={() => toggleRow(r.line)} />
+                  ) : (
+                    <AlertTriangle size={12} className="text-red-400 mt-0.5 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    {r.expense ? (
+                      <div className="flex justify-between gap-2 text-[11px] font-bold">
+                        <span className="truncate">{r.expense.name}</span>
+                        <span className="font-mono shrink-0">{formatMoney(r.expense.cost, r.expense.currency)}</span>
+                      </div>
+                    ) : (
+                      <div className="text-[10px] font-bold text-red-500">Row {r.line}: {r.error}</div>
+                    )}
+                    {r.expense && <div className="text-[9px] font-bold text-gray-400">{r.expense.date} • {r.expense.payer}</div>}
+                    {r.duplicateOf && (
+                      <div className="text-[9px] font-bold text-orange-500 flex items-center gap-1">
+                        <Copy size={9} /> Looks like "{r.duplicateOf.name}"
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+        </div>
+
+        {step === 'map' && (
+          <div className="mt-4 flex gap-2">
+            <button onClick={() => setStep('pick')} className="flex-1 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-bold text-xs">BACK</button>
+            <button
+              onClick={handleReview}
+              disabled={missingRequired.length > 0 || splitBy.length === 0}
+              className="flex-[2] bg-retro-text text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform disabled:opacity-50"
+            >
+              {missingRequired.length > 0 ? `CHOOSE ${missingRequired.map(f => f.label.toUpperCase()).join(', ')}` : 'REVIEW'}
+            </button>
+          </div>
+        )}
+        {step === 'review' && (
+          <div className="mt-4 flex gap-2">
+            <button onClick={() => setStep('map')} className="flex-1 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-bold text-xs">BACK</button>
+            <button
+              onClick={handleImport}
+              disabled={selected.length === 0}
+              className="flex-[2] bg-[#00A86B] text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform disabled:opacity-50"
+            >
+              IMPORT {selected.length}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
 import React, { useState, useRef } from 'react';
-import { X, Camera, Trash2, Users, Plus, Minus } from 'lucide-react';
+import { X, Camera, Trash2, Users, Plus, Minus, ChevronDown, History } from 'lucide-react';
+import { Trip } from '../types';
 import { ConfirmModal } from './ConfirmModal';
 import { CloudConfigModal } from './CloudConfigModal';
+import { TripSwitcherModal } from './TripSwitcherModal';
+import { InvitePanel } from './InvitePanel';
+import { SyncStatus } from './SyncStatus';
+import { TripBackupModal, ImportTarget } from './TripBackupModal';
+import { TripArchive, TripSnapshotForArchive, ImportReport } from '../utils/tripArchive';
 
 // Custom 4-point star SVG component to match the reference image
 const PixelStar = ({ className }: { className?: string }) => (
@@ -22,11 +28,22 @@ interface HeaderProps {
   onRemoveUser: (name: string) => void;
   isCloudConnected?: boolean;
   onRefreshCloud?: () => void;
+  trips: Trip[];
+  activeTrip: Trip;
+  onSwitchTrip: (tripId: string) => void;
+  onCreateTrip: (trip: Omit<Trip, 'id' | 'members'>) => void;
+  onJoinTrip: (code: string) => Promise<string | null>;
+  tripSnapshot: TripSnapshotForArchive;
+  onExportTrip: () => Promise<string>;
+  onImportTrip: (archive: TripArchive, target: ImportTarget, overwrite: boolean) => Promise<ImportReport>;
+  onOpenActivity: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, onUpdateAvatar, onAddUser, onRemoveUser, isCloudConnected = false, onRefreshCloud }) => {
+export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, onUpdateAvatar, onAddUser, onRemoveUser, isCloudConnected = false, onRefreshCloud, trips, activeTrip, onSwitchTrip, onCreateTrip, onJoinTrip, tripSnapshot, onExportTrip, onImportTrip, onOpenActivity }) => {
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isCloudModalOpen, setIsCloudModalOpen] = useState(false);
+  const [isTripModalOpen, setIsTripModalOpen] = useState(false);
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
   
   // Generic Confirmation Modal State
   const [confirmState, setConfirmState] = useState<{
@@ -101,6 +118,14 @@ export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, o
               <h1 className="text-xl sm:text-2xl font-pixel text-black uppercase tracking-tighter">
                 LUYOGEMAO
               </h1>
+              {/* Active Trip (Click to Switch) */}
+              <button
+                onClick={() => setIsTripModalOpen(true)}
+                className="mt-1.5 self-start flex items-center gap-1 text-[9px] font-bold text-gray-500 bg-white/70 px-1.5 py-0.5 rounded border border-gray-200 hover:border-retro-accent hover:text-retro-accent transition-colors max-w-[160px]"
+              >
+                <span className="truncate">{activeTrip.name}</span>
+                <ChevronDown size={10} className="shrink-0" />
+              </button>
             </div>
             <PixelStar className="absolute -bottom-2 -right-3 w-3 h-3 text-black animate-pulse delay-75" />
           </div>
@@ -108,6 +133,18 @@ export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, o
           {/* Right: Actions & User Info */}
           <div className="flex items-center gap-2">
             
+            {/* Unsynced Cloud Writes */}
+            {isCloudConnected && <SyncStatus />}
+
+            {/* Activity Feed */}
+            <button
+              onClick={onOpenActivity}
+              className="p-2 rounded-full bg-white/70 border border-gray-200 text-gray-500 hover:text-retro-accent hover:border-retro-accent active:scale-95 transition-all"
+              aria-label="Activity"
+            >
+              <History size={14} />
+            </button>
+
             {/* User Info (Clickable) */}
             <button 
               onClick={() => setIsProfileOpen(true)}
@@ -145,6 +182,26 @@ export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, o
         onConnect={() => onRefreshCloud && onRefreshCloud()}
       />
 
+      <TripSwitcherModal
+        isOpen={isTripModalOpen}
+        onClose={() => setIsTripModalOpen(false)}
+        trips={trips}
+        activeTripId={activeTrip.id}
+        onSwitch={onSwitchTrip}
+        onCreate={onCreateTrip}
+        onJoin={onJoinTrip}
+        onOpenBackup={() => setIsBackupModalOpen(true)}
+      />
+
+      <TripBackupModal
+        isOpen={isBackupModalOpen}
+        onClose={() => setIsBackupModalOpen(false)}
+        current={tripSnapshot}
+        isCloudConnected={isCloudConnected}
+        onExport={onExportTrip}
+        onImport={onImportTrip}
+      />
+
       {/* === PASSENGER LIST MODAL === */}
       {isProfileOpen && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-center justify-center p-6 animate-in fade-in duration-200">
@@ -265,14 +322,24 @@ export const Header: React.FC<HeaderProps> = ({ user, tripUsers, onDeleteUser, o
                  </div>
               </form>
 
+              {/* --- Invite Friends (Code / Link / QR) --- */}
+              <InvitePanel trip={activeTrip} userName={displayName} isCloudConnected={isCloudConnected} />
+
             </div>
 
             <div className="pt-2 text-center">
-                 <p className="text-[8px] text-gray-400 font-sans font-bold leading-tight px-4">
-                    {isCloudConnected 
-                      ? "✅ Cloud Sync Active: Changes update everyone." 
-                      : "* Local Mode: Changes only affect this device."}
-                 </p>
+                 {isCloudConnected ? (
+                   <p className="text-[8px] text-gray-400 font-sans font-bold leading-tight px-4">
+                      ✅ Cloud Sync Active: Changes update everyone.
+                   </p>
+                 ) : (
+                   <button
+                     onClick={() => setIsCloudModalOpen(true)}
+                     className="text-[8px] text-gray-400 font-sans font-bold leading-tight px-4 hover:text-retro-accent transition-colors"
+                   >
+                      * Local Mode: Changes only affect this device. <span className="underline">Connect cloud</span>
+                   </button>
+                 )}
             </div>
 
           </div>
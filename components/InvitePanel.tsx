@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Link2, Copy, Check, Ban, QrCode } from 'lucide-react';
+import { Trip, TripInvite } from '../types';
+import { createInvite, fetchTripInvites, revokeInvite, syncSaveTrip, getFirebaseConfig } from '../services/firebase';
+import { buildInviteUrl } from '../utils/invites';
+
+interface InvitePanelProps {
+  trip: Trip;
+  userName: string;
+  isCloudConnected: boolean;
+}
+
+export const InvitePanel: React.FC<InvitePanelProps> = ({ trip, userName, isCloudConnected }) => {
+  const [invite, setInvite] = useState<TripInvite | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  // Show the newest still-valid invite for this trip, if any
+  useEffect(() => {
+    if (!isCloudConnected) return;
+    fetchTripInvites(trip.id)
+      .then(list => setInvite(list.find(i => !i.revoked && i.expiresAt > Date.now()) || null))
+      .catch(e => console.warn("Failed to load invites", e));
+  }, [trip.id, isCloudConnected]);
+
+  const inviteUrl = invite ? buildInviteUrl(invite, getFirebaseConfig()) : '';
+
+  useEffect(() => {
+    if (!inviteUrl) {
+      setQrDataUrl(null);
+      return;
+    }
+    QRCode.toDataURL(inviteUrl, { margin: 1, width: 240, color: { dark: '#283618', light: '#FFFFFF' } })
+      .then(setQrDataUrl)
+      .catch(e => console.error("QR generation failed", e));
+  }, [inviteUrl]);
+
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      // Make sure the trip document carries the name/dates the invitee will see
+      await syncSaveTrip(trip);
+      setInvite(await createInvite(trip.id, userName));
+    } catch (e) {
+      console.error("Invite creation failed", e);
+      setError('Could not create invite. Check your connection.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!invite) return;
+    setIsBusy(true);
+    try {
+      await revokeInvite(invite.code);
+      setInvite(null);
+    } catch (e) {
+      console.error("Invite revoke failed", e);
+      setError('Could not revoke invite.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 1500);
+    } catch (e) {
+      console.warn("Clipboard unavailable", e);
+    }
+  };
+
+  if (!isCloudConnected) {
+    return (
+      <div className="text-center py-2 text-[9px] text-gray-400 font-bold">
+        Connect to the cloud to invite friends.
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-2 mt-2 border-t border-dashed border-gray-200 space-y-2">
+      {invite ? (
+        <div className="bg-white p-3 rounded-xl border border-retro-text/10 flex flex-col items-center gap-2">
+          {qrDataUrl && <img src={qrDataUrl} alt="Invite QR" className="w-32 h-32 rounded-lg" />}
+          <div className="text-[8px] font-bold text-gray-400 uppercase tracking-widest">Invite Code</div>
+          <div className="text-xl font-black font-mono tracking-[0.3em] text-retro-text">{invite.code}</div>
+          <div className="text-[8px] font-bold text-gray-400">
+            Expires {new Date(invite.expiresAt).toLocaleDateString()}
+          </div>
+          <div className="flex gap-2 w-full">
+            <button
+              onClick={handleCopy}
+              className="flex-1 py-2 rounded-lg bg-retro-text text-white text-[9px] font-black flex items-center justify-center gap-1 active:scale-95 transition-transform"
+            >
+              {isCopied ? <Check size={12} /> : <Copy size={12} />} {isCopied ? 'COPIED' : 'COPY LINK'}
+            </button>
+            <button
+              onClick={handleRevoke}
+              disabled={isBusy}
+              className="px-3 py-2 rounded-lg bg-red-50 text-red-500 text-[9px] font-black flex items-center gap-1 hover:bg-red-100 transition-colors"
+            >
+              <Ban size={12} /> REVOKE
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleGenerate}
+          disabled={isBusy}
+          className="w-full py-2.5 rounded-xl border-2 border-dashed border-gray-300 text-gray-500 text-[10px] font-bold hover:border-retro-accent hover:text-retro-accent transition-colors flex items-center justify-center gap-1.5"
+        >
+          {isBusy ? (
+            <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+          ) : (
+            <QrCode size={12} />
+          )}
+          INVITE FRIENDS (CODE / QR)
+        </button>
+      )}
+      {error && (
+        <div className="flex items-center gap-1 text-red-500 text-[9px] font-bold px-1">
+          <Link2 size={10} /> {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { X, Wallet } from 'lucide-react';
+import { MemberProfile, Trip } from '../types';
+import { PAYMENT_HANDLES, cleanProfile } from '../utils/members';
+import { RateTable, availableCurrencies, isCommonCurrency } from '../utils/currency';
+
+interface MemberProfileModalProps {
+  name: string;
+  profile: MemberProfile;
+  trip: Pick<Trip, 'startDate' | 'endDate'>;
+  rates: RateTable;
+  onSave: (profile: MemberProfile) => Promise<void>;
+  onClose: () => void;
+}
+
+export const MemberProfileModal: React.FC<MemberProfileModalProps> = ({ name, profile, trip, rates, onSave, onClose }) => {
+  const [draft, setDraft] = useState<MemberProfile>(profile);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const currencies = availableCurrencies(rates);
+  const otherCurrencies = currencies.filter(c => !isCommonCurrency(c.code));
+
+  const handleSave = async () => {
+    if (draft.arrival && draft.departure && draft.departure < draft.arrival) {
+      setError('Departure is before arrival.');
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(cleanProfile(draft));
+      onClose();
+    } catch (e) {
+      console.error("Saving profile failed", e);
+      setError('Could not save. Try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <Wallet size={18} />
+          <h3 className="text-base font-pixel truncate pr-10">{name.toUpperCase()}</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-3">
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Settles in</label>
+            <div className="flex flex-wrap gap-1">
+              {currencies.filter(c => isCommonCurrency(c.code)).map(c => (
+                <button
+                  key={c.code}
+                  onClick={() => setDraft({ ...draft, settleCurrency: c.code })}
+                  className={`px-2.5 py-1.5 rounded-lg text-[10px] font-black border-2 ${draft.settleCurrency === c.code ? 'bg-retro-text text-white border-retro-text' : 'bg-white text-gray-400 border-gray-200'}`}
+                >
+                  {c.code}
+                </button>
+              ))}
+              {otherCurrencies.length > 0 && (
+                <select
+                  value={otherCurrencies.some(c => c.code === draft.settleCurrency) ? draft.settleCurrency : ''}
+                  onChange={e => e.target.value && setDraft({ ...draft, settleCurrency: e.target.value })}
+                  className={`px-1.5 py-1.5 rounded-lg text-[10px] font-black border-2 outline-none ${otherCurrencies.some(c => c.code === draft.settleCurrency) ? 'bg-retro-text text-white border-retro-text' : 'bg-white text-gray-400 border-gray-200'}`}
+                >
+                  <option value="">MORE</option>
+                  {otherCurrencies.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">On the trip</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={draft.arrival || ''}
+                min={trip.startDate}
+                max={trip.endDate}
+                onChange={e => { setDraft({ ...draft, arrival: e.target.value }); setError(''); }}
+                className="flex-1 min-w-0 p-2.5 rounded-xl bg-white border-2 border-gray-200 text-[10px] font-bold outline-none focus:border-[#00A86B]"
+              />
+              <span className="text-gray-400 text-xs font-bold">~</span>
+              <input
+                type="date"
+                value={draft.departure || ''}
+                min={trip.startDate}
+                max={trip.endDate}
+                onChange={e => { setDraft({ ...draft, departure: e.target.value }); setError(''); }}
+                className="flex-1 min-w-0 p-2.5 rounded-xl bg-white border-2 border-gray-200 text-[10px] font-bold outline-none focus:border-[#00A86B]"
+              />
+            </div>
+            <p className="text-[9px] text-gray-400 font-bold leading-tight">
+              Leave empty for the whole trip. New expenses split among whoever is here that day; hotels split by nights.
+            </p>
+          </div>
+
+          {PAYMENT_HANDLES.map(h => (
+            <div key={h.key} className="space-y-1">
+              <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{h.label}</label>
+              <input
+                value={draft[h.key] || ''}
+                onChange={e => setDraft({ ...draft, [h.key]: e.target.value })}
+                placeholder={h.placeholder}
+                className="w-full p-2.5 rounded-xl bg-white border-2 border-gray-200 text-xs font-bold outline-none focus:border-[#00A86B]"
+              />
+            </div>
+          ))}
+
+          <p className="text-[9px] text-gray-400 font-bold leading-tight">
+            Payment details are visible to everyone on the trip, so they know how to pay {name} back.
+          </p>
+          {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="mt-4 w-full bg-retro-text text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform disabled:opacity-50"
+        >
+          SAVE
+        </button>
+      </div>
+    </div>
+  );
+};
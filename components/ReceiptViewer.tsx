@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { X, ImageOff } from 'lucide-react';
+import { getReceiptImage } from '../utils/db';
+
+interface ReceiptViewerProps {
+  receipt: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+// Full-screen view of an expense's receipt image (a data URL, Storage URL or local reference)
+export const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ receipt, title, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    setUrl(null);
+    setIsMissing(false);
+    if (!receipt) return;
+    let isCurrent = true;
+    getReceiptImage(receipt)
+      .then(found => {
+        if (!isCurrent) return;
+        if (found) setUrl(found);
+        else setIsMissing(true);
+      })
+      .catch(() => isCurrent && setIsMissing(true));
+    return () => { isCurrent = false; };
+  }, [receipt]);
+
+  if (!receipt) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[150] flex items-center justify-center p-6 animate-in fade-in duration-200" onClick={onClose}>
+      <button onClick={onClose} className="absolute top-5 right-5 text-white bg-white/10 rounded-full p-2"><X size={20} /></button>
+      <div className="w-full max-w-sm" onClick={e => e.stopPropagation()}>
+        {title && <div className="text-white text-xs font-black mb-2 truncate">{title}</div>}
+        {url ? (
+          <img src={url} alt="Receipt" className="w-full max-h-[75vh] object-contain rounded-xl bg-white" />
+        ) : isMissing ? (
+          <div className="bg-white rounded-xl p-6 text-center">
+            <ImageOff size={24} className="mx-auto text-gray-300 mb-2" />
+            <p className="text-xs font-bold text-gray-500">This receipt was saved on another device.</p>
+          </div>
+        ) : (
+          <div className="text-center text-white/60 text-xs font-bold">Loading…</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { X, HandCoins, ArrowRight } from 'lucide-react';
+import { SettlementPayment, SettlementMethod } from '../types';
+import { RateTable, availableCurrencies, convertFromBase, rateToBaseFor, roundToCurrency } from '../utils/currency';
+
+export const SETTLEMENT_METHODS: { id: SettlementMethod; label: string }[] = [
+  { id: 'cash', label: 'CASH' },
+  { id: 'transfer', label: 'BANK' },
+  { id: 'app', label: 'APP' },
+  { id: 'other', label: 'OTHER' },
+];
+
+export const getMethodLabel = (method: SettlementMethod) =>
+  SETTLEMENT_METHODS.find(m => m.id === method)?.label || method;
+
+interface SettlementPaymentModalProps {
+  people: string[];
+  // Pre-filled from a suggested transfer; the amount is in KRW
+  initial: { from: string; to: string; amountKRW: number };
+  currency: string;
+  rates: RateTable;
+  onSave: (payment: SettlementPayment) => void;
+  onClose: () => void;
+}
+
+export const SettlementPaymentModal: React.FC<SettlementPaymentModalProps> = ({ people, initial, currency: initialCurrency, rates, onSave, onClose }) => {
+  const [from, setFrom] = useState(initial.from);
+  const [to, setTo] = useState(initial.to);
+  const [currency, setCurrency] = useState(initialCurrency);
+  const [amount, setAmount] = useState(() =>
+    initial.amountKRW > 0 ? roundToCurrency(convertFromBase(initial.amountKRW, initialCurrency, rates), initialCurrency).toString() : ''
+  );
+  const [method, setMethod] = useState<SettlementMethod>('transfer');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const handleCurrencyChange = (code: string) => {
+    // Keep the same value when switching currency
+    const value = parseFloat(amount);
+    if (value > 0) {
+      const krw = value * rateToBaseFor(currency, rates);
+      setAmount(roundToCurrency(convertFromBase(krw, code, rates), code).toString());
+    }
+    setCurrency(code);
+  };
+
+  const handleSave = () => {
+    const value = roundToCurrency(parseFloat(amount), currency);
+    if (!(value > 0)) return setError('Enter the amount that was paid.');
+    if (!from || !to || from === to) return setError('Pick two different people.');
+    onSave({
+      id: Date.now().toString(),
+      from,
+      to,
+      amount: value,
+      currency,
+      rateToBase: rateToBaseFor(currency, rates),
+      method,
+      ...(note.trim() ? { note: note.trim() } : {}),
+      at: Date.now(),
+    });
+    onClose();
+  };
+
+  const selectClass = "flex-1 min-w-0 p-2.5 rounded-xl bg-white border-2 border-gray-200 text-xs font-bold text-gray-700 outline-none focus:border-[#00A86B]";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <HandCoins size={18} />
+          <h3 className="text-base font-pixel">RECORD PAYMENT</h3>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <select value={from} onChange={e => setFrom(e.target.value)} className={selectClass}>
+              {people.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <ArrowRight size={14} className="text-gray-400 shrink-0" />
+            <select value={to} onChange={e => setTo(e.target.value)} className={selectClass}>
+              {people.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              value={amount}
+              onChange={e => { setAmount(e.target.value); setError(''); }}
+              className="flex-1 min-w-0 p-2.5 rounded-xl bg-white border-2 border-gray-200 text-sm font-mono font-bold outline-none focus:border-[#00A86B]"
+            />
+            <select value={currency} onChange={e => handleCurrencyChange(e.target.value)} className="w-20 p-2.5 rounded-xl bg-white border-2 border-gray-200 text-xs font-bold outline-none">
+              {availableCurrencies(rates).map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+            </select>
+          </div>
+
+          <div className="flex gap-1">
+            {SETTLEMENT_METHODS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMethod(m.id)}
+                className={`flex-1 py-2 rounded-lg text-[10px] font-black border-2 ${method === m.id ? 'bg-retro-text text-white border-retro-text' : 'bg-white text-gray-400 border-gray-200'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="w-full p-2.5 rounded-xl bg-white border-2 border-gray-200 text-xs font-bold outline-none focus:border-[#00A86B]"
+          />
+
+          {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+        </div>
+
+        <button
+          onClick={handleSave}
+          className="mt-4 w-full bg-[#00A86B] text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform"
+        >
+          SAVE PAYMENT
+        </button>
+      </div>
+    </div>
+  );
+};
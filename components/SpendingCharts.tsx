@@ -0,0 +1,139 @@
+import React from 'react';
+import { BarChart3, Store } from 'lucide-react';
+import { SpendingAnalytics } from '../utils/analytics';
+import { getCategoryLabel } from '../utils/categories';
+import { toLocalDate } from '../utils/trips';
+
+interface SpendingChartsProps {
+  analytics: SpendingAnalytics;
+  // Formats a KRW amount in the currency the Settle tab is showing
+  money: (amountKRW: number) => string;
+  getPersonColor: (name: string) => string;
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  dining: 'bg-orange-400',
+  shopping: 'bg-blue-400',
+  transport: 'bg-green-400',
+  sightseeing: 'bg-purple-400',
+  hotel: 'bg-indigo-400',
+  other: 'bg-gray-400',
+};
+
+// Plain div bars: no chart library and nothing fetched, so the charts work offline
+export const SpendingCharts: React.FC<SpendingChartsProps> = ({ analytics, money, getPersonColor }) => {
+  const { byDay, byCategory, byPerson, topMerchants } = analytics;
+  const today = toLocalDate();
+  const maxDay = Math.max(...byDay.map(d => d.total), 1);
+  const maxPerson = Math.max(...byPerson.flatMap(p => [p.consumed, p.paid]), 1);
+  const sectionTitle = "text-[10px] font-black text-gray-400 tracking-widest uppercase mb-2";
+
+  if (analytics.total <= 0) {
+    return (
+      <div className="bg-white rounded-[1.5rem] shadow-sm border border-gray-100 p-5 text-[10px] font-bold text-gray-400">
+        Charts appear once the first expense is added.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-[1.5rem] shadow-sm border border-gray-100 p-5 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-black text-gray-800 tracking-widest uppercase flex items-center gap-2">
+          <BarChart3 size={14} className="text-blue-500" />
+          Spending
+        </h2>
+        <div className="text-right">
+          <div className="text-xs font-black font-mono text-retro-text">{money(analytics.averagePerPersonPerDay)}</div>
+          <div className="text-[8px] font-bold text-gray-400 uppercase">Avg / person / day</div>
+        </div>
+      </div>
+
+      {/* Per day */}
+      <div>
+        <div className={sectionTitle}>Per day</div>
+        <div className="flex items-end gap-1 h-24 overflow-x-auto no-scrollbar">
+          {byDay.map(({ day, total }) => (
+            <div key={day} className="flex-1 min-w-[14px] h-full flex flex-col justify-end items-center" title={`${day}: ${money(total)}`}>
+              <div
+                className={`w-full rounded-t ${day === today ? 'bg-[#FF3366]' : 'bg-yellow-400'}`}
+                style={{ height: `${(total / maxDay) * 100}%`, minHeight: total > 0 ? 2 : 0 }}
+              ></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {byDay.map(({ day }) => (
+            <div key={day} className="flex-1 min-w-[14px] text-center text-[7px] font-bold text-gray-400">{day.slice(8)}</div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per category */}
+      <div>
+        <div className={sectionTitle}>Per category</div>
+        <div className="flex h-3 w-full rounded-full overflow-hidden bg-gray-100">
+          {byCategory.map(({ category, total }) => (
+            <div key={category} className={CATEGORY_COLORS[category]} style={{ width: `${(total / analytics.total) * 100}%` }}></div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+          {byCategory.map(({ category, total }) => (
+            <div key={category} className="flex items-center justify-between text-[10px] font-bold">
+              <span className="flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full inline-block ${CATEGORY_COLORS[category]}`}></span>
+                {getCategoryLabel(category)}
+              </span>
+              <span className="font-mono text-gray-500">{Math.round((total / analytics.total) * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per person */}
+      <div>
+        <div className={`${sectionTitle} flex items-center gap-3`}>
+          Consumed vs paid
+          <span className="flex items-center gap-1 normal-case tracking-normal"><span className="w-2 h-2 rounded-sm bg-[#2a1d1a] inline-block"></span>used</span>
+          <span className="flex items-center gap-1 normal-case tracking-normal"><span className="w-2 h-2 rounded-sm bg-yellow-400 inline-block"></span>paid</span>
+        </div>
+        <div className="space-y-3">
+          {byPerson.map(p => (
+            <div key={p.name}>
+              <div className="flex justify-between text-[10px] font-bold mb-1">
+                <span className="flex items-center gap-1.5">
+                  <span className={`w-2 h-2 rounded-full inline-block ${getPersonColor(p.name)}`}></span>
+                  {p.name}
+                </span>
+                <span className="font-mono text-gray-500">{money(p.consumed)} / {money(p.paid)} • {money(p.perDay)}/day</span>
+              </div>
+              <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden mb-0.5">
+                <div className="h-full rounded-full bg-[#2a1d1a]" style={{ width: `${(p.consumed / maxPerson) * 100}%` }}></div>
+              </div>
+              <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full rounded-full bg-yellow-400" style={{ width: `${(p.paid / maxPerson) * 100}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Top merchants */}
+      <div>
+        <div className={`${sectionTitle} flex items-center gap-1`}><Store size={10} /> Top places</div>
+        <div className="space-y-1">
+          {topMerchants.map((m, idx) => (
+            <div key={m.name} className="flex items-center justify-between text-[11px] font-bold">
+              <span className="truncate pr-2">
+                <span className="text-gray-300 font-mono mr-1.5">{idx + 1}</span>
+                {m.name}
+                {m.count > 1 && <span className="text-[9px] text-gray-400"> ×{m.count}</span>}
+              </span>
+              <span className="font-mono shrink-0">{money(m.total)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { X, CloudOff, AlertTriangle, RotateCw, Trash2 } from 'lucide-react';
+import { OutboxState, OutboxEntry, subscribeOutbox, flushOutbox, retryFailedWrite, discardFailedWrite } from '../services/outbox';
+
+const describeEntry = (entry: OutboxEntry): string => {
+  if (entry.collection === 'users') return `${entry.action === 'add' ? 'Add' : 'Remove'} passenger ${entry.docId}`;
+  const kind = entry.collection === 'expenses' ? 'expense' : entry.collection === 'settlements' ? 'payment' : 'plan';
+  if (entry.action === 'delete') return `Delete ${kind}`;
+  const label = entry.collection === 'expenses' ? entry.payload.name
+    : entry.collection === 'settlements' ? `${entry.payload.from} → ${entry.payload.to}`
+    : entry.payload.title;
+  return `Save ${kind} "${label}"`;
+};
+
+// Header badge for cloud writes that have not reached the server. Hidden when everything is synced.
+export const SyncStatus: React.FC = () => {
+  const [outbox, setOutbox] = useState<OutboxState>({ pending: [], failed: [], conflicts: [] });
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => subscribeOutbox(setOutbox), []);
+
+  const { pending, failed, conflicts } = outbox;
+  if (pending.length === 0 && failed.length === 0 && conflicts.length === 0) return null;
+  const problems = failed.length + conflicts.length;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-black border-2 active:scale-95 transition-transform ${problems > 0 ? 'bg-red-50 border-red-200 text-red-500' : 'bg-white border-gray-200 text-gray-500'}`}
+      >
+        {problems > 0 ? <AlertTriangle size={12} /> : <CloudOff size={12} />}
+        {problems > 0 ? problems : pending.length}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+          <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[80vh]">
+            <button onClick={() => setIsOpen(false)} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+              <X size={20} />
+            </button>
+
+            <h3 className="text-base font-pixel text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">SYNC QUEUE</h3>
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-3">
+              {pending.length > 0 && (
+                <div className="bg-white p-3 rounded-xl border border-retro-text/10 flex items-center justify-between gap-2">
+                  <div className="text-[10px] font-bold text-gray-500 leading-tight">
+                    {pending.length} change{pending.length > 1 ? 's' : ''} saved on this device, waiting for a connection.
+                  </div>
+                  <button onClick={() => flushOutbox()} className="shrink-0 p-2 bg-retro-text text-white rounded-lg active:scale-90 transition-transform">
+                    <RotateCw size={14} />
+                  </button>
+                </div>
+              )}
+
+              {conflicts.length > 0 && (
+                <div className="bg-orange-50 border border-orange-100 p-3 rounded-xl text-[10px] font-bold text-orange-700 leading-tight">
+                  {conflicts.length} edit{conflicts.length > 1 ? 's' : ''} collided with a friend's change. Open the PLAN or TOOL tab to compare and pick a version.
+                </div>
+              )}
+
+              {failed.map(entry => (
+                <div key={entry.seq} className="bg-red-50 border border-red-100 p-3 rounded-xl">
+                  <div className="text-xs font-black text-red-600">{describeEntry(entry)}</div>
+                  <div className="text-[9px] font-bold text-red-400 mt-0.5 break-words">{entry.error}</div>
+                  <div className="flex gap-2 mt-2">
+                    <button onClick={() => retryFailedWrite(entry)} className="flex-1 py-1.5 rounded-lg bg-white text-red-500 text-[9px] font-black flex items-center justify-center gap-1">
+                      <RotateCw size={10} /> RETRY
+                    </button>
+                    <button onClick={() => discardFailedWrite(entry)} className="flex-1 py-1.5 rounded-lg bg-red-500 text-white text-[9px] font-black flex items-center justify-center gap-1">
+                      <Trash2 size={10} /> DISCARD
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState, useRef } from 'react';
+import { X, Archive, Download, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { TripArchive, TripSnapshotForArchive, ArchiveConflict, ImportReport, readTripArchive, findArchiveConflicts } from '../utils/tripArchive';
+
+export type ImportTarget = 'current' | 'new';
+
+interface TripBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  current: TripSnapshotForArchive;
+  isCloudConnected: boolean;
+  onExport: () => Promise<string>;
+  onImport: (archive: TripArchive, target: ImportTarget, overwrite: boolean) => Promise<ImportReport>;
+}
+
+export const TripBackupModal: React.FC<TripBackupModalProps> = ({ isOpen, onClose, current, isCloudConnected, onExport, onImport }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [archive, setArchive] = useState<TripArchive | null>(null);
+  const [conflicts, setConflicts] = useState<ArchiveConflict[]>([]);
+  const [target, setTarget] = useState<ImportTarget>('current');
+  const [overwrite, setOverwrite] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setArchive(null);
+    setConflicts([]);
+    setMessage('');
+    setError('');
+    setTarget('current');
+    setOverwrite(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      setMessage(await onExport());
+    } catch (e) {
+      console.error("Export failed", e);
+      setError('Export failed. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setIsBusy(true);
+    try {
+      const opened = await readTripArchive(file);
+      setArchive(opened);
+      setConflicts(findArchiveConflicts(opened, current));
+      // A backup of a different trip defaults to restoring as its own trip
+      setTarget(opened.manifest.trip.id === current.trip.id ? 'current' : 'new');
+    } catch (err: any) {
+      setError(err?.message || 'Could not read this backup.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      const report = await onImport(archive, target, overwrite);
+      setArchive(null);
+      setConflicts([]);
+      setMessage(
+        `Imported ${report.itinerary} plans, ${report.expenses} expenses, ${report.photos} photos` +
+        (report.settlements ? `, ${report.settlements} payments` : '') +
+        (report.receipts ? `, ${report.receipts} receipts` : '') +
+        (report.users ? `, ${report.users} passengers` : '') +
+        (report.skipped ? `. Kept ${report.skipped} existing records.` : '.')
+      );
+    } catch (e) {
+      console.error("Import failed", e);
+      setError('Import failed part-way. Some records may already be restored.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const manifest = archive?.manifest;
+  const visibleConflicts = target === 'current' ? conflicts : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button onClick={handleClose} className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2">
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <Archive size={18} />
+          <h3 className="text-base font-pixel">BACKUP</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-3">
+          {!manifest && (
+            <>
+              <button
+                onClick={handleExport}
+                disabled={isBusy}
+                className="w-full bg-retro-text text-white py-3 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform flex items-center justify-center gap-2"
+              >
+                <Download size={14} /> EXPORT "{current.trip.name}"
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-gray-500 text-xs font-bold hover:border-retro-accent hover:text-retro-accent transition-colors flex items-center justify-center gap-2"
+              >
+                <Upload size={14} /> IMPORT BACKUP (.zip)
+              </button>
+              <input ref={fileInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+              <p className="text-[9px] text-gray-400 font-bold text-center leading-tight px-2">
+                Includes passengers, plans, expenses, payments, flight/hotel, weather and photos.
+              </p>
+            </>
+          )}
+
+          {manifest && (
+            <div className="space-y-3">
+              <div className="bg-white p-3 rounded-xl border border-retro-text/10">
+                <div className="text-sm font-black text-retro-text">{manifest.trip.name}</div>
+                <div className="text-[9px] font-bold text-gray-400">
+                  Exported {new Date(manifest.exportedAt).toLocaleString()}{manifest.exportedBy ? ` by ${manifest.exportedBy}` : ''} • v{manifest.version}
+                </div>
+                <div className="text-[10px] font-bold text-gray-600 mt-2">
+                  {manifest.itinerary.length} plans • {manifest.expenses.length} expenses • {manifest.photos.length} photos • {manifest.users.length} passengers
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['current', 'new'] as ImportTarget[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTarget(t)}
+                    className={`py-2 rounded-lg text-[10px] font-black border-2 transition-colors ${target === t ? 'bg-white border-retro-accent text-retro-text' : 'border-transparent bg-white/50 text-gray-400'}`}
+                  >
+                    {t === 'current' ? 'INTO THIS TRIP' : 'AS NEW TRIP'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] font-bold text-gray-400 px-1">
+                {isCloudConnected ? 'Records will be pushed to the cloud trip.' : 'Records will be restored on this device.'}
+              </p>
+
+              {visibleConflicts.length > 0 && (
+                <div className="bg-orange-50 border border-orange-100 p-3 rounded-xl space-y-2">
+                  <div className="flex items-center gap-1.5 text-orange-700 text-[10px] font-black">
+                    <AlertCircle size={12} /> {visibleConflicts.length} CONFLICTS
+                  </div>
+                  <ul className="text-[9px] font-bold text-orange-600 space-y-0.5 max-h-24 overflow-y-auto">
+                    {visibleConflicts.map(c => <li key={`${c.kind}-${c.id}`}>• {c.kind}: {c.label}</li>)}
+                  </ul>
+                  <div className="flex gap-2">
+                    <button onClick={() => setOverwrite(false)} className={`flex-1 py-1.5 rounded-lg text-[9px] font-black ${!overwrite ? 'bg-orange-500 text-white' : 'bg-white text-orange-500'}`}>KEEP MINE</button>
+                    <button onClick={() => setOverwrite(true)} className={`flex-1 py-1.5 rounded-lg text-[9px] font-black ${overwrite ? 'bg-orange-500 text-white' : 'bg-white text-orange-500'}`}>USE BACKUP</button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button onClick={reset} className="flex-1 py-3 rounded-xl border-2 border-gray-200 text-gray-500 font-black text-xs uppercase">Cancel</button>
+                <button onClick={handleImport} disabled={isBusy} className="flex-1 py-3 rounded-xl bg-retro-text text-white font-black text-xs uppercase active:scale-95 transition-transform">
+                  {isBusy ? 'Importing...' : 'Import'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {isBusy && !manifest && (
+            <div className="flex justify-center py-2">
+              <div className="w-5 h-5 border-2 border-retro-text border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {message && (
+            <div className="flex items-start gap-2 text-green-700 bg-green-50 border border-green-100 p-3 rounded-xl text-[10px] font-bold">
+              <CheckCircle size={12} className="shrink-0 mt-0.5" /> {message}
+            </div>
+          )}
+          {error && (
+            <div className="flex items-start gap-2 text-red-500 text-[10px] font-bold px-1">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" /> {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { X, Plane, Plus, Check, MapPin, Ticket, Archive } from 'lucide-react';
+import { Trip } from '../types';
+import { getTripRangeError } from '../utils/trips';
+
+interface TripSwitcherModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trips: Trip[];
+  activeTripId: string;
+  onSwitch: (tripId: string) => void;
+  onCreate: (trip: Omit<Trip, 'id' | 'members'>) => void;
+  onJoin: (code: string) => Promise<string | null>;
+  onOpenBackup: () => void;
+}
+
+export const TripSwitcherModal: React.FC<TripSwitcherModalProps> = ({ isOpen, onClose, trips, activeTripId, onSwitch, onCreate, onJoin, onOpenBackup }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [destination, setDestination] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [joinError, setJoinError] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setDestination('');
+    setStartDate('');
+    setEndDate('');
+    setError('');
+    setIsCreating(false);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !destination.trim() || !startDate || !endDate) {
+      setError('Please fill in every field.');
+      return;
+    }
+    const rangeError = getTripRangeError({ startDate, endDate });
+    if (rangeError) {
+      setError(rangeError);
+      return;
+    }
+    onCreate({ name: name.trim(), destination: destination.trim(), startDate, endDate });
+    resetForm();
+    onClose();
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    setIsJoining(true);
+    const joinFailure = await onJoin(joinCode);
+    setIsJoining(false);
+    if (joinFailure) {
+      setJoinError(joinFailure);
+      return;
+    }
+    setJoinCode('');
+    setJoinError('');
+    onClose();
+  };
+
+  const handleSwitch = (tripId: string) => {
+    if (tripId !== activeTripId) onSwitch(tripId);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="bg-[#FEFAE0] p-6 rounded-[2rem] w-full max-w-sm shadow-2xl border-4 border-white relative flex flex-col max-h-[85vh]">
+        <button
+          onClick={() => { resetForm(); onClose(); }}
+          className="absolute top-5 right-5 text-gray-400 hover:text-gray-600 bg-white rounded-full p-2"
+        >
+          <X size={20} />
+        </button>
+
+        <div className="flex items-center gap-2 text-retro-text mb-4 pb-3 border-b-2 border-dashed border-gray-300">
+          <Plane size={18} />
+          <h3 className="text-base font-pixel">MY TRIPS</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+          {trips.map(trip => {
+            const isActive = trip.id === activeTripId;
+            return (
+              <button
+                key={trip.id}
+                onClick={() => handleSwitch(trip.id)}
+                className={`w-full text-left p-3 rounded-xl border-2 flex items-center justify-between transition-colors ${isActive ? 'bg-white border-retro-accent' : 'bg-white/60 border-transparent hover:border-retro-text/10'}`}
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-black text-retro-text truncate">{trip.name}</div>
+                  <div className="flex items-center gap-1 text-[9px] font-bold text-gray-400 mt-0.5">
+                    <MapPin size={9} />
+                    <span className="truncate">{trip.destination} • {trip.startDate.replace(/-/g, '.')} – {trip.endDate.replace(/-/g, '.')}</span>
+                  </div>
+                </div>
+                {isActive && <Check size={16} className="text-retro-accent shrink-0" />}
+              </button>
+            );
+          })}
+
+          {isCreating ? (
+            <form onSubmit={handleCreate} className="bg-white p-3 rounded-xl space-y-2 border border-retro-text/10">
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="Trip name" className="w-full p-2 rounded-lg bg-gray-50 border border-gray-200 focus:border-retro-accent outline-none text-xs font-bold" />
+              <input value={destination} onChange={e => setDestination(e.target.value)} placeholder="Destination" className="w-full p-2 rounded-lg bg-gray-50 border border-gray-200 focus:border-retro-accent outline-none text-xs font-bold" />
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="text-[8px] font-bold text-gray-400 uppercase">Departure</label>
+                  <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full p-2 rounded-lg bg-gray-50 border border-gray-200 focus:border-retro-accent outline-none text-[10px] font-bold" />
+                </div>
+                <div className="flex-1">
+                  <label className="text-[8px] font-bold text-gray-400 uppercase">Return</label>
+                  <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full p-2 rounded-lg bg-gray-50 border border-gray-200 focus:border-retro-accent outline-none text-[10px] font-bold" />
+                </div>
+              </div>
+              {error && <p className="text-[10px] font-bold text-red-500 px-1">{error}</p>}
+              <div className="flex gap-2 pt-1">
+                <button type="button" onClick={resetForm} className="flex-1 py-2 rounded-lg border-2 border-gray-200 text-gray-500 font-black text-[10px] uppercase">Cancel</button>
+                <button type="submit" className="flex-1 py-2 rounded-lg bg-retro-text text-white font-black text-[10px] uppercase">Create</button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setIsCreating(true)}
+              className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-gray-400 text-xs font-bold hover:border-retro-accent hover:text-retro-accent transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> NEW TRIP
+            </button>
+          )}
+
+          {/* Join an existing shared trip */}
+          <form onSubmit={handleJoin} className="pt-2 space-y-1">
+            <div className="flex gap-2">
+              <input
+                value={joinCode}
+                onChange={e => setJoinCode(e.target.value.toUpperCase())}
+                placeholder="INVITE CODE"
+                maxLength={8}
+                className="flex-1 p-2 rounded-lg bg-white border border-gray-200 focus:border-retro-accent outline-none text-xs font-black font-mono tracking-widest"
+              />
+              <button type="submit" disabled={isJoining} className="bg-retro-accent text-white px-3 rounded-lg text-[10px] font-black flex items-center gap-1 active:scale-95 transition-transform">
+                <Ticket size={12} /> JOIN
+              </button>
+            </div>
+            {joinError && <p className="text-[10px] font-bold text-red-500 px-1">{joinError}</p>}
+          </form>
+
+          <button
+            onClick={() => { onClose(); onOpenBackup(); }}
+            className="w-full mt-2 py-2 text-[10px] font-bold text-gray-400 hover:text-retro-text transition-colors flex items-center justify-center gap-1.5"
+          >
+            <Archive size={12} /> EXPORT / IMPORT BACKUP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { Trip } from '../types';
+import { deletePhotoFromDB } from '../utils/db';
+import { fetchTripData, uploadPhotoToCloud, isStorageInitialized } from './firebase';
+import { readLocalTripSnapshot } from './localTripStore';
+import { createFirestoreTripStore } from './firestoreTripStore';
+import { TripSnapshot } from './tripStore';
+
+// Records saved on this device in local mode that the cloud trip does not have.
+// Shown to the user after connecting so nothing written offline is silently hidden.
+export type LocalOnlyRecords = TripSnapshot;
+
+export interface CloudMergeReport {
+  users: number;
+  itinerary: number;
+  expenses: number;
+  settlements: number;
+  photos: number;
+  failedPhotos: number;
+}
+
+export const isEmptySelection = (records: LocalOnlyRecords) =>
+  records.users.length + records.itinerary.length + records.expenses.length + records.settlements.length + records.photos.length === 0;
+
+// Compare by id (by name for passengers). The placeholder 'Me' is never offered.
+// Without cloud Storage, photos stay on the device (the cloud store still lists them there).
+export const findLocalOnlyRecords = async (tripId: string): Promise<LocalOnlyRecords> => {
+  const [local, cloud] = await Promise.all([readLocalTripSnapshot(tripId), fetchTripData(tripId)]);
+  return {
+    users: local.users.filter(u => u !== 'Me' && !cloud.users.includes(u)),
+    itinerary: local.itinerary.filter(item => !cloud.itinerary.some(c => c.id === item.id)),
+    expenses: local.expenses.filter(item => !cloud.expenses.some(c => c.id === item.id)),
+    settlements: local.settlements.filter(item => !cloud.settlements.some(c => c.id === item.id)),
+    photos: isStorageInitialized()
+      ? local.photos.filter(photo => !photo.uploaded && !cloud.photos.some(c => c.id === photo.id))
+      : [],
+  };
+};
+
+// Push the chosen records to the cloud trip. Lists go through the store (and its outbox);
+// photos are uploaded directly so a failure can be reported, and removed locally once they are in the cloud.
+export const pushLocalRecords = async (trip: Trip, selection: LocalOnlyRecords): Promise<CloudMergeReport> => {
+  const cloud = createFirestoreTripStore(trip.id);
+  const report: CloudMergeReport = { users: 0, itinerary: 0, expenses: 0, settlements: 0, photos: 0, failedPhotos: 0 };
+
+  // Trips created in local mode have no cloud document yet
+  await cloud.saveTrip(trip);
+
+  for (const name of selection.users) {
+    await cloud.addUser(name);
+    report.users++;
+  }
+  for (const item of selection.itinerary) {
+    await cloud.addItinerary(item);
+    report.itinerary++;
+  }
+  for (const item of selection.expenses) {
+    await cloud.addExpense(item);
+    report.expenses++;
+  }
+  for (const payment of selection.settlements) {
+    await cloud.addSettlement(payment);
+    report.settlements++;
+  }
+  for (const photo of selection.photos) {
+    try {
+      await uploadPhotoToCloud(trip.id, { ...photo, tripId: trip.id });
+      await deletePhotoFromDB(photo.id);
+      report.photos++;
+    } catch (e) {
+      console.error(`Photo ${photo.id} could not be uploaded`, e);
+      report.failedPhotos++;
+    }
+  }
+
+  return report;
+};
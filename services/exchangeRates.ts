@@ -0,0 +1,174 @@
+import { openDB } from '../utils/db';
+import { createObservable, Unsubscribe } from './tripStore';
+import { BASE_CURRENCY, RateTable, getPairRate, setPairRate } from '../utils/currency';
+import { toLocalDate } from '../utils/trips';
+
+// Exchange rates: pluggable providers, the current table (cached for offline starts),
+// and a dated history of every table we have seen in IndexedDB.
+
+export interface RateProvider {
+  id: string;
+  label: string;
+  // Units of each currency per 1 KRW
+  fetchRates: () => Promise<RateTable>;
+}
+
+export interface RateQuote {
+  id: string;       // "<day>:<provider id>", so each provider keeps one quote per day
+  day: string;      // YYYY-MM-DD (local)
+  at: number;
+  source: string;   // provider id
+  rates: RateTable;
+}
+
+export interface RateState {
+  rates: RateTable;
+  updatedAt: number | null;  // null = never fetched, using the built-in fixture
+  source: string;
+  isRefreshing: boolean;
+  error?: string;
+}
+
+const STORE_NAME = 'rates';
+const CACHE_KEY = 'seoul-exchange-rates';
+// Pre-provider cache: a TWD rate only, possibly typed in by hand
+const LEGACY_TWD_KEY = 'seoul-exchange-rate';
+
+// --- Providers ---
+
+export const createExchangeRateApiProvider = (): RateProvider => ({
+  id: 'exchangerate-api',
+  label: 'ExchangeRate-API',
+  fetchRates: async () => {
+    const res = await fetch(`https://api.exchangerate-api.com/v4/latest/${BASE_CURRENCY}`);
+    if (!res.ok) throw new Error(`Rate request failed (${res.status})`);
+    const data = await res.json();
+    if (!data || !data.rates) throw new Error('Rate response had no rates');
+    return { ...data.rates, [BASE_CURRENCY]: 1 };
+  }
+});
+
+// Rates typed in by the user, layered over the table they were looking at
+export const createManualProvider = (getRates: () => RateTable): RateProvider => ({
+  id: 'manual',
+  label: 'Manual',
+  fetchRates: async () => ({ ...getRates(), [BASE_CURRENCY]: 1 })
+});
+
+// A fixed table: used in tests and as the fallback before any rates have been fetched
+export const createFixtureProvider = (rates: RateTable, id = 'fixture', label = 'Built-in estimate'): RateProvider => ({
+  id,
+  label,
+  fetchRates: async () => ({ ...rates, [BASE_CURRENCY]: 1 })
+});
+
+export const FIXTURE_RATES: RateTable = { KRW: 1, TWD: 0.0235, USD: 0.00075, JPY: 0.11, EUR: 0.00069 };
+
+const fixtureProvider = createFixtureProvider(FIXTURE_RATES);
+const PROVIDERS: Record<string, RateProvider> = {};
+const registerProvider = (provider: RateProvider) => { PROVIDERS[provider.id] = provider; return provider; };
+
+const defaultProvider = registerProvider(createExchangeRateApiProvider());
+registerProvider(fixtureProvider);
+
+export const getProviderLabel = (id: string) => PROVIDERS[id]?.label || (id === 'manual' ? 'Manual' : id);
+
+// --- Cache ---
+
+const loadCachedState = (): RateState => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+    // Current shape: { rates, updatedAt, source }
+    if (cached && cached.rates) {
+      return { rates: { ...cached.rates, [BASE_CURRENCY]: 1 }, updatedAt: cached.updatedAt ?? null, source: cached.source || defaultProvider.id, isRefreshing: false };
+    }
+    // Older builds stored the raw table and a separate TWD value
+    const legacyTwd = parseFloat(localStorage.getItem(LEGACY_TWD_KEY) || '');
+    if (cached || !isNaN(legacyTwd)) {
+      const rates = { ...FIXTURE_RATES, ...(cached || {}), [BASE_CURRENCY]: 1 };
+      if (!isNaN(legacyTwd)) rates.TWD = legacyTwd;
+      return { rates, updatedAt: null, source: 'manual', isRefreshing: false };
+    }
+  } catch (e) {
+    console.warn('Ignoring unreadable rate cache', e);
+  }
+  return { rates: { ...FIXTURE_RATES }, updatedAt: null, source: fixtureProvider.id, isRefreshing: false };
+};
+
+const state = createObservable<RateState>(loadCachedState());
+
+const saveCache = (next: RateState) => {
+  localStorage.setItem(CACHE_KEY, JSON.stringify({ rates: next.rates, updatedAt: next.updatedAt, source: next.source }));
+  localStorage.removeItem(LEGACY_TWD_KEY);
+};
+
+// --- History (IndexedDB) ---
+
+const saveQuote = async (quote: RateQuote): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME).put(quote);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Every stored quote, oldest first
+const getRateHistory = async (): Promise<RateQuote[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).index('day').getAll();
+    request.onsuccess = () => resolve((request.result as RateQuote[]).sort((a, b) => a.at - b.at));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The latest quote on or before a day (YYYY-MM-DD), e.g. to price a back-dated expense
+export const getRatesForDay = async (day: string): Promise<RateQuote | null> => {
+  const history = await getRateHistory();
+  const onOrBefore = history.filter(q => q.day <= day);
+  return onOrBefore[onOrBefore.length - 1] || null;
+};
+
+// Rates to lock onto a new expense: the recorded table of its day when that covers the currency,
+// otherwise the current one (day: null). A null quote means today, or no table from back then.
+export const getLockRates = (code: string, current: RateTable, dayQuote: RateQuote | null): { rates: RateTable; day: string | null } =>
+  dayQuote && code !== BASE_CURRENCY && getPairRate(code, BASE_CURRENCY, dayQuote.rates) !== null
+    ? { rates: dayQuote.rates, day: dayQuote.day }
+    : { rates: current, day: null };
+
+// --- Public API ---
+
+const applyQuote = async (source: string, rates: RateTable) => {
+  const at = Date.now();
+  const next: RateState = { rates, updatedAt: at, source, isRefreshing: false };
+  state.set(next);
+  saveCache(next);
+  try {
+    await saveQuote({ id: `${toLocalDate(at)}:${source}`, day: toLocalDate(at), at, source, rates });
+  } catch (e) {
+    console.warn('Could not record rate history', e);
+  }
+};
+
+export const getRateState = (): RateState => state.get();
+
+export const subscribeRates = (callback: (state: RateState) => void): Unsubscribe => state.subscribe(callback);
+
+// Fetch a fresh table. On failure the cached table stays in place and the error is surfaced.
+export const refreshRates = async (provider: RateProvider = defaultProvider): Promise<void> => {
+  registerProvider(provider);
+  state.set({ ...state.get(), isRefreshing: true, error: undefined });
+  try {
+    await applyQuote(provider.id, await provider.fetchRates());
+  } catch (e: any) {
+    console.warn('Failed to fetch exchange rates, keeping cached rates.', e);
+    state.set({ ...state.get(), isRefreshing: false, error: e?.message || 'Could not fetch rates' });
+  }
+};
+
+// Override one pair by hand ("1 <from> = <rate> <to>"); the rest of the table is kept
+export const setManualRate = (from: string, to: string, rate: number): Promise<void> => {
+  const rates = setPairRate(state.get().rates, from, to, rate);
+  return refreshRates(createManualProvider(() => rates));
+};
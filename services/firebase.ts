@@ -1,7 +1,10 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore, collection, onSnapshot, doc, setDoc, updateDoc, deleteDoc, arrayUnion, arrayRemove, getDoc } from 'firebase/firestore';
+import { getFirestore, Firestore, collection, onSnapshot, doc, setDoc, updateDoc, deleteDoc, arrayUnion, arrayRemove, getDoc, getDocs, query, where, runTransaction, writeBatch, orderBy, limit, Transaction, WriteBatch, FieldPath } from 'firebase/firestore';
 import { getStorage, FirebaseStorage, ref, uploadString, getDownloadURL, deleteObject } from 'firebase/storage';
-import { FirebaseConfig, ExpenseItem, ItineraryItem, Photo } from '../types';
+import { FirebaseConfig, ExpenseItem, ItineraryItem, Photo, Trip, TripBudget, MemberProfile, SettlementPayment, TripInvite, Revisioned, ActivityEntry, ActivityType, ActivityAction, DEFAULT_TRIP } from '../types';
+import { generateInviteCode, INVITE_TTL_MS } from '../utils/invites';
+import { SCHEMA_VERSION, upgradeExpenses, upgradeItinerary } from '../utils/migrations';
+import type { TripSnapshot } from './tripStore';
 
 // ============================================================================
 // 👇👇👇 請將 Firebase Console 的設定複製到這裡 👇👇👇
@@ -23,9 +26,10 @@ export const YOUR_FIREBASE_CONFIG: FirebaseConfig = {
 let app: FirebaseApp | null = null;
 let db: Firestore | null = null;
 let storage: FirebaseStorage | null = null;
+// Config the app was started with; invite links carry it to devices not yet connected
+let activeConfig: FirebaseConfig | null = null;
 
-// Unique Trip ID for sync (In a real app, this would be dynamic)
-const TRIP_ID = 'seoul_2026_jan'; 
+export const getFirebaseConfig = (): FirebaseConfig | null => activeConfig;
 
 export const initFirebase = (config: FirebaseConfig): boolean => {
   // Simple check to ensure config is not empty or default placeholder
@@ -50,6 +54,7 @@ export const initFirebase = (config: FirebaseConfig): boolean => {
             console.log("No Storage Bucket provided. Photos will be local only.");
             storage = null;
         }
+        activeConfig = config;
     }
     return true;
   } catch (e) {
@@ -63,94 +68,371 @@ export const isStorageInitialized = () => !!storage;
 
 // --- FIRESTORE SYNC HOOKS ---
 
+// ACTIVITY LOG: every write below also appends a line to trips/{tripId}/activity, in the same batch/transaction.
+// The actor is whoever is checked in on this device.
+const ACTIVITY_FEED_LIMIT = 200;
+let activityActor = 'Someone';
+
+export const setActivityActor = (name: string) => {
+  activityActor = name;
+};
+
+const logActivity = (
+  writer: Transaction | WriteBatch,
+  firestore: Firestore,
+  tripId: string,
+  type: ActivityType,
+  action: ActivityAction,
+  targetId: string,
+  label: string
+) => {
+  const entryRef = doc(collection(firestore, 'trips', tripId, 'activity'));
+  const entry: ActivityEntry = { id: entryRef.id, at: Date.now(), actor: activityActor, type, action, targetId, label };
+  // Transaction.set and WriteBatch.set take the same arguments
+  (writer as WriteBatch).set(entryRef, entry);
+};
+
+// Delete a record and log it with the name it had (read in the same transaction)
+const deleteWithActivity = async (firestore: Firestore, tripId: string, collectionName: string, type: ActivityType, id: string, labelField: string) => {
+  const ref = doc(firestore, 'trips', tripId, collectionName, id);
+  await runTransaction(firestore, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return; // Already gone
+    transaction.delete(ref);
+    logActivity(transaction, firestore, tripId, type, 'delete', id, snap.data()[labelField] || id);
+  });
+};
+
+export const subscribeToActivity = (tripId: string, callback: (entries: ActivityEntry[]) => void) => {
+  if (!db) return () => {};
+  const firestore = db;
+
+  const feed = query(collection(firestore, 'trips', tripId, 'activity'), orderBy('at', 'desc'), limit(ACTIVITY_FEED_LIMIT));
+  const unsub = onSnapshot(feed, (snapshot) => {
+    callback(snapshot.docs.map(d => d.data() as ActivityEntry));
+  });
+  return unsub;
+};
+
+// Thrown when a record changed in the cloud after the editor loaded it
+export class WriteConflictError<T = unknown> extends Error {
+  constructor(public remote: T) {
+    super('Someone else changed this in the meantime');
+    this.name = 'WriteConflictError';
+  }
+}
+
+// JSON with sorted keys, so records read back from Firestore compare equal to what was written
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).filter(k => record[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Write a record only if its cloud copy is still at the revision the edit started from.
+// A write that already landed (e.g. retried after a timeout) is recognised and not reported as a conflict.
+const writeRevisioned = async <T extends Revisioned & { id: string }>(
+  firestore: Firestore,
+  tripId: string,
+  collectionName: string,
+  item: T,
+  type: ActivityType,
+  label: string
+) => {
+  const ref = doc(firestore, 'trips', tripId, collectionName, item.id);
+  await runTransaction(firestore, async (transaction) => {
+    const snap = await transaction.get(ref);
+    const baseRevision = item.revision ?? 0;
+
+    if (snap.exists()) {
+      const remote = { id: snap.id, ...snap.data() } as T;
+      const remoteRevision = remote.revision ?? 0;
+      if (remoteRevision === baseRevision + 1 && stableStringify({ ...remote, revision: baseRevision }) === stableStringify(item)) return;
+      if (remoteRevision !== baseRevision) throw new WriteConflictError(remote);
+    }
+    transaction.set(ref, { ...item, revision: baseRevision + 1 });
+    logActivity(transaction, firestore, tripId, type, snap.exists() ? 'update' : 'add', item.id, label);
+  });
+};
+
+// 0. TRIP METADATA
+export const syncSaveTrip = async (trip: Trip) => {
+  if (!db) return;
+  const firestore = db;
+  const { id, members, ...meta } = trip;
+  // A trip created by this version starts at the current schema
+  await setDoc(doc(firestore, 'trips', id), { ...meta, schemaVersion: SCHEMA_VERSION }, { merge: true });
+};
+
+export const fetchTrip = async (tripId: string): Promise<Trip | null> => {
+  if (!db) return null;
+  const firestore = db;
+  const snap = await getDoc(doc(firestore, 'trips', tripId));
+  if (!snap.exists()) return null;
+  const data = snap.data();
+  return {
+    id: tripId,
+    name: data.name || tripId,
+    destination: data.destination || '',
+    startDate: data.startDate || DEFAULT_TRIP.startDate,
+    endDate: data.endDate || DEFAULT_TRIP.endDate,
+    location: data.location,
+    members: Array.isArray(data.users) ? data.users : []
+  };
+};
+
+// One-off read of everything a trip has in the cloud (listeners are used for live data)
+export const fetchTripData = async (tripId: string): Promise<TripSnapshot> => {
+  if (!db) return { users: [], itinerary: [], expenses: [], settlements: [], photos: [] };
+  const firestore = db;
+  const list = async <T>(name: string) =>
+    (await getDocs(collection(firestore, 'trips', tripId, name))).docs.map(d => ({ id: d.id, ...d.data() } as T));
+
+  const tripSnap = await getDoc(doc(firestore, 'trips', tripId));
+  const users = tripSnap.exists() && Array.isArray(tripSnap.data().users) ? tripSnap.data().users : [];
+  return {
+    users,
+    itinerary: await list<ItineraryItem>('itinerary'),
+    expenses: await list<ExpenseItem>('expenses'),
+    settlements: await list<SettlementPayment>('settlements'),
+    photos: await list<Photo>('photos'),
+  };
+};
+
+// 0a. SCHEMA MIGRATIONS
+// The trip document records which schema its subcollections were written with.
+// Older trips are upgraded in place once, by whichever member opens them first.
+export const runFirestoreMigrations = async (tripId: string) => {
+  if (!db) return;
+  const firestore = db;
+  const tripRef = doc(firestore, 'trips', tripId);
+  const snap = await getDoc(tripRef);
+  if (!snap.exists()) return; // Nothing stored yet
+
+  const data = snap.data();
+  const fromVersion: number = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (fromVersion >= SCHEMA_VERSION) return;
+
+  const ctx = { users: Array.isArray(data.users) && data.users.length > 0 ? data.users : ['Me'] };
+  const collections = [
+    { name: 'expenses', upgrade: (items: unknown[]) => upgradeExpenses(items, fromVersion, ctx) },
+    { name: 'itinerary', upgrade: (items: unknown[]) => upgradeItinerary(items, fromVersion, ctx) },
+  ];
+
+  for (const { name, upgrade } of collections) {
+    const docs = (await getDocs(collection(firestore, 'trips', tripId, name))).docs;
+    const original = docs.map(d => ({ id: d.id, ...d.data() }));
+    const upgraded = upgrade(original);
+    await Promise.all(upgraded.map((item, i) =>
+      JSON.stringify(item) === JSON.stringify(original[i])
+        ? Promise.resolve()
+        : setDoc(doc(firestore, 'trips', tripId, name, item.id), item)
+    ));
+  }
+
+  await updateDoc(tripRef, { schemaVersion: SCHEMA_VERSION });
+  console.log(`Trip ${tripId} migrated from schema v${fromVersion} to v${SCHEMA_VERSION}`);
+};
+
+// 0b. INVITES (top-level collection so a code can be looked up before joining the trip)
+export const createInvite = async (tripId: string, createdBy: string): Promise<TripInvite> => {
+  if (!db) throw new Error("Cloud not configured");
+  const firestore = db;
+
+  // Retry on the (unlikely) event of a code collision
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const code = generateInviteCode();
+    const existing = await getDoc(doc(firestore, 'invites', code));
+    if (existing.exists()) continue;
+
+    const now = Date.now();
+    const invite: TripInvite = { code, tripId, createdBy, createdAt: now, expiresAt: now + INVITE_TTL_MS, revoked: false };
+    await setDoc(doc(firestore, 'invites', code), invite);
+    return invite;
+  }
+  throw new Error("Could not allocate an invite code");
+};
+
+export const fetchInvite = async (code: string): Promise<TripInvite | null> => {
+  if (!db) return null;
+  const firestore = db;
+  const snap = await getDoc(doc(firestore, 'invites', code));
+  return snap.exists() ? (snap.data() as TripInvite) : null;
+};
+
+export const fetchTripInvites = async (tripId: string): Promise<TripInvite[]> => {
+  if (!db) return [];
+  const firestore = db;
+  const snap = await getDocs(query(collection(firestore, 'invites'), where('tripId', '==', tripId)));
+  return snap.docs.map(d => d.data() as TripInvite).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const revokeInvite = async (code: string) => {
+  if (!db) return;
+  const firestore = db;
+  await updateDoc(doc(firestore, 'invites', code), { revoked: true });
+};
+
 // 1. SYNC USERS
-export const subscribeToUsers = (callback: (users: string[]) => void) => {
+export const subscribeToUsers = (tripId: string, callback: (users: string[]) => void) => {
   if (!db) return () => {};
   const firestore = db; // Capture strictly for closure
 
-  // Listen to the 'trip_data' document, field 'users'
-  const unsub = onSnapshot(doc(firestore, 'trips', TRIP_ID), (docSnap) => {
+  // Listen to the trip document, field 'users'
+  const unsub = onSnapshot(doc(firestore, 'trips', tripId), (docSnap) => {
     if (docSnap.exists() && docSnap.data().users) {
       callback(docSnap.data().users);
     } else {
         // Init if empty. 
-        setDoc(doc(firestore, 'trips', TRIP_ID), { users: ['Me'] }, { merge: true });
+        setDoc(doc(firestore, 'trips', tripId), { users: ['Me'], schemaVersion: SCHEMA_VERSION }, { merge: true });
     }
   });
   return unsub;
 };
 
-export const syncAddUser = async (name: string) => {
+export const syncAddUser = async (tripId: string, name: string) => {
   if (!db) return;
   const firestore = db;
-  await updateDoc(doc(firestore, 'trips', TRIP_ID), {
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'trips', tripId), {
     users: arrayUnion(name)
   });
+  logActivity(batch, firestore, tripId, 'passenger', 'add', name, name);
+  await batch.commit();
 };
 
-export const syncRemoveUser = async (name: string) => {
+export const syncRemoveUser = async (tripId: string, name: string) => {
   if (!db) return;
   const firestore = db;
-  await updateDoc(doc(firestore, 'trips', TRIP_ID), {
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'trips', tripId), {
     users: arrayRemove(name)
   });
+  logActivity(batch, firestore, tripId, 'passenger', 'delete', name, name);
+  await batch.commit();
+};
+
+// 1b. SYNC BUDGET (field 'budget' on the trip document)
+export const subscribeToBudget = (tripId: string, callback: (budget: TripBudget) => void) => {
+  if (!db) return () => {};
+  const firestore = db;
+  const unsub = onSnapshot(doc(firestore, 'trips', tripId), (docSnap) => {
+    callback((docSnap.exists() && docSnap.data().budget) || {});
+  });
+  return unsub;
+};
+
+// Replaces the whole budget, so removed limits disappear (a merge would keep old map keys)
+export const syncSaveBudget = async (tripId: string, budget: TripBudget) => {
+  if (!db) return;
+  const firestore = db;
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'trips', tripId), { budget });
+  logActivity(batch, firestore, tripId, 'budget', 'update', 'budget', 'Trip budget');
+  await batch.commit();
+};
+
+// 1c. SYNC MEMBER PROFILES (field 'profiles' on the trip document, one key per passenger)
+export const subscribeToProfiles = (tripId: string, callback: (profiles: Record<string, MemberProfile>) => void) => {
+  if (!db) return () => {};
+  const firestore = db;
+  const unsub = onSnapshot(doc(firestore, 'trips', tripId), (docSnap) => {
+    callback((docSnap.exists() && docSnap.data().profiles) || {});
+  });
+  return unsub;
+};
+
+// A FieldPath, because names may contain dots
+export const syncSaveProfile = async (tripId: string, name: string, profile: MemberProfile) => {
+  if (!db) return;
+  const firestore = db;
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'trips', tripId), new FieldPath('profiles', name), profile);
+  logActivity(batch, firestore, tripId, 'passenger', 'update', name, name);
+  await batch.commit();
 };
 
 // 2. SYNC EXPENSES
-export const subscribeToExpenses = (callback: (expenses: ExpenseItem[]) => void) => {
+export const subscribeToExpenses = (tripId: string, callback: (expenses: ExpenseItem[]) => void) => {
   if (!db) return () => {};
   const firestore = db;
 
-  const unsub = onSnapshot(collection(firestore, 'trips', TRIP_ID, 'expenses'), (snapshot) => {
+  const unsub = onSnapshot(collection(firestore, 'trips', tripId, 'expenses'), (snapshot) => {
     const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExpenseItem));
     callback(data);
   });
   return unsub;
 };
 
-export const syncAddExpense = async (expense: ExpenseItem) => {
+export const syncAddExpense = async (tripId: string, expense: ExpenseItem) => {
   if (!db) return;
   const firestore = db;
-  await setDoc(doc(firestore, 'trips', TRIP_ID, 'expenses', expense.id), expense);
+  await writeRevisioned(firestore, tripId, 'expenses', expense, 'expense', expense.name);
 };
 
-export const syncDeleteExpense = async (id: string) => {
+export const syncDeleteExpense = async (tripId: string, id: string) => {
   if (!db) return;
   const firestore = db;
-  await deleteDoc(doc(firestore, 'trips', TRIP_ID, 'expenses', id));
+  await deleteWithActivity(firestore, tripId, 'expenses', 'expense', id, 'name');
+};
+
+// 2b. SYNC SETTLEMENT PAYMENTS
+export const subscribeToSettlements = (tripId: string, callback: (payments: SettlementPayment[]) => void) => {
+  if (!db) return () => {};
+  const firestore = db;
+
+  const unsub = onSnapshot(collection(firestore, 'trips', tripId, 'settlements'), (snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SettlementPayment)));
+  });
+  return unsub;
+};
+
+export const syncSaveSettlement = async (tripId: string, payment: SettlementPayment) => {
+  if (!db) return;
+  const firestore = db;
+  await writeRevisioned(firestore, tripId, 'settlements', payment, 'settlement', `${payment.from} → ${payment.to}`);
+};
+
+export const syncDeleteSettlement = async (tripId: string, id: string) => {
+  if (!db) return;
+  const firestore = db;
+  await deleteWithActivity(firestore, tripId, 'settlements', 'settlement', id, 'from');
 };
 
 // 3. SYNC ITINERARY
-export const subscribeToItinerary = (callback: (items: ItineraryItem[]) => void) => {
+export const subscribeToItinerary = (tripId: string, callback: (items: ItineraryItem[]) => void) => {
   if (!db) return () => {};
   const firestore = db;
 
-  const unsub = onSnapshot(collection(firestore, 'trips', TRIP_ID, 'itinerary'), (snapshot) => {
+  const unsub = onSnapshot(collection(firestore, 'trips', tripId, 'itinerary'), (snapshot) => {
     const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ItineraryItem));
     callback(data);
   });
   return unsub;
 };
 
-export const syncUpdateItinerary = async (item: ItineraryItem) => {
+export const syncUpdateItinerary = async (tripId: string, item: ItineraryItem) => {
   if (!db) return;
   const firestore = db;
-  await setDoc(doc(firestore, 'trips', TRIP_ID, 'itinerary', item.id), item);
+  await writeRevisioned(firestore, tripId, 'itinerary', item, 'itinerary', item.title);
 };
 
-export const syncDeleteItinerary = async (id: string) => {
+export const syncDeleteItinerary = async (tripId: string, id: string) => {
   if (!db) return;
   const firestore = db;
-  await deleteDoc(doc(firestore, 'trips', TRIP_ID, 'itinerary', id));
+  await deleteWithActivity(firestore, tripId, 'itinerary', 'itinerary', id, 'title');
 };
 
 // 4. SYNC PHOTOS (Gallery)
-export const subscribeToPhotos = (callback: (photos: Photo[]) => void) => {
+export const subscribeToPhotos = (tripId: string, callback: (photos: Photo[]) => void) => {
   // Only subscribe if storage is enabled to avoid broken image links
   if (!db || !storage) return () => {};
   const firestore = db;
   
-  const unsub = onSnapshot(collection(firestore, 'trips', TRIP_ID, 'photos'), (snapshot) => {
+  const unsub = onSnapshot(collection(firestore, 'trips', tripId, 'photos'), (snapshot) => {
     const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Photo));
     // Sort by ID (timestamp) desc
     data.sort((a, b) => Number(b.id) - Number(a.id));
@@ -159,7 +441,7 @@ export const subscribeToPhotos = (callback: (photos: Photo[]) => void) => {
   return unsub;
 };
 
-export const uploadPhotoToCloud = async (photo: Photo): Promise<void> => {
+export const uploadPhotoToCloud = async (tripId: string, photo: Photo): Promise<void> => {
   if (!db || !storage) {
       throw new Error("Storage not configured");
   }
@@ -168,7 +450,7 @@ export const uploadPhotoToCloud = async (photo: Photo): Promise<void> => {
 
   try {
     // 1. Upload Base64 to Storage
-    const storageRef = ref(firebaseStorage, `photos/${TRIP_ID}/${photo.id}.jpg`);
+    const storageRef = ref(firebaseStorage, `photos/${tripId}/${photo.id}.jpg`);
     await uploadString(storageRef, photo.url, 'data_url');
     
     // 2. Get Public URL
@@ -176,7 +458,10 @@ export const uploadPhotoToCloud = async (photo: Photo): Promise<void> => {
 
     // 3. Save Metadata to Firestore (including author)
     const cloudPhoto: Photo = { ...photo, url: downloadUrl, uploaded: true };
-    await setDoc(doc(firestore, 'trips', TRIP_ID, 'photos', photo.id), cloudPhoto);
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'trips', tripId, 'photos', photo.id), cloudPhoto);
+    logActivity(batch, firestore, tripId, 'photo', 'add', photo.id, photo.date);
+    await batch.commit();
     
   } catch (e) {
     console.error("Cloud upload failed", e);
@@ -184,18 +469,38 @@ export const uploadPhotoToCloud = async (photo: Photo): Promise<void> => {
   }
 };
 
-export const deletePhotoFromCloud = async (photo: Photo) => {
+// Receipt images live next to photos in Storage; the expense keeps the download URL
+export const uploadReceiptToCloud = async (tripId: string, id: string, dataUrl: string): Promise<string> => {
+  if (!storage) throw new Error("Storage not configured");
+  const storageRef = ref(storage, `receipts/${tripId}/${id}.jpg`);
+  await uploadString(storageRef, dataUrl, 'data_url');
+  return getDownloadURL(storageRef);
+};
+
+export const deleteReceiptFromCloud = async (url: string) => {
+  if (!storage) return;
+  try {
+    await deleteObject(ref(storage, url));
+  } catch (e) {
+    console.warn("Receipt file might already be gone", e);
+  }
+};
+
+export const deletePhotoFromCloud = async (tripId: string, photo: Photo) => {
   if (!db || !storage) return;
   const firestore = db;
   const firebaseStorage = storage;
   
   // Delete from Firestore
-  await deleteDoc(doc(firestore, 'trips', TRIP_ID, 'photos', photo.id));
+  const batch = writeBatch(firestore);
+  batch.delete(doc(firestore, 'trips', tripId, 'photos', photo.id));
+  logActivity(batch, firestore, tripId, 'photo', 'delete', photo.id, photo.date);
+  await batch.commit();
   
   // Delete from Storage (if it was uploaded)
   if (photo.uploaded || photo.url.includes('firebasestorage')) {
      try {
-       const storageRef = ref(firebaseStorage, `photos/${TRIP_ID}/${photo.id}.jpg`);
+       const storageRef = ref(firebaseStorage, `photos/${tripId}/${photo.id}.jpg`);
        await deleteObject(storageRef);
      } catch (e) {
          console.warn("Storage file might already be gone", e);
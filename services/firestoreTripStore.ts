@@ -0,0 +1,144 @@
+import { Photo } from '../types';
+import {
+  isStorageInitialized, syncSaveTrip, runFirestoreMigrations,
+  subscribeToUsers, subscribeToBudget, syncSaveBudget, subscribeToProfiles, syncSaveProfile, subscribeToItinerary, subscribeToExpenses,
+  subscribeToPhotos, uploadPhotoToCloud, deletePhotoFromCloud,
+  uploadReceiptToCloud, deleteReceiptFromCloud, subscribeToSettlements,
+  subscribeToActivity
+} from './firebase';
+import { TripStore, Unsubscribe } from './tripStore';
+import { enqueueMutation, subscribeOutbox, applyPendingWrites, applyPendingUsers, OutboxEntry } from './outbox';
+import { upgradeExpenses, upgradeItinerary } from '../utils/migrations';
+import { createLocalPhotoStore, createLocalReceiptStore } from './localTripStore';
+import { LOCAL_RECEIPT_PREFIX } from '../utils/db';
+
+// Combine a cloud listener with the queued writes that have not reached the server yet
+const withPendingWrites = <T>(
+  subscribeCloud: (callback: (value: T) => void) => Unsubscribe,
+  overlay: (value: T, pending: OutboxEntry[]) => T,
+  callback: (value: T) => void
+): Unsubscribe => {
+  let cloud: T | null = null;
+  let pending: OutboxEntry[] = [];
+  const emit = () => { if (cloud !== null) callback(overlay(cloud, pending)); };
+
+  const unsubOutbox = subscribeOutbox(state => { pending = state.pending; emit(); });
+  const unsubCloud = subscribeCloud(value => { cloud = value; emit(); });
+  return () => {
+    unsubOutbox();
+    unsubCloud();
+  };
+};
+
+// Shared store backed by Firestore (and Storage for photos).
+// Writes go through the outbox so they survive being offline; see services/outbox.
+// Photos and receipts that could not be uploaded stay in IndexedDB (photos are listed alongside the cloud ones).
+export const createFirestoreTripStore = (tripId: string): TripStore => {
+  const localPhotos = createLocalPhotoStore(tripId);
+  const localReceipts = createLocalReceiptStore(tripId);
+
+  return {
+    tripId,
+    isShared: true,
+    sharesPhotos: isStorageInitialized(),
+
+    saveTrip: (trip) => syncSaveTrip(trip),
+    migrate: () => runFirestoreMigrations(tripId),
+
+    subscribeUsers: (callback) => withPendingWrites(
+      cb => subscribeToUsers(tripId, cb),
+      (users, pending) => applyPendingUsers(tripId, users, pending),
+      callback
+    ),
+    addUser: (name) => enqueueMutation(tripId, { collection: 'users', action: 'add', docId: name }),
+    removeUser: (name) => enqueueMutation(tripId, { collection: 'users', action: 'remove', docId: name }),
+
+    // Members still on an older app version may write old-shaped records; upgraders are idempotent
+    subscribeItinerary: (callback) => withPendingWrites(
+      cb => subscribeToItinerary(tripId, data => cb(upgradeItinerary(data))),
+      (items, pending) => applyPendingWrites(tripId, 'itinerary', items, pending),
+      callback
+    ),
+    addItinerary: (item) => enqueueMutation(tripId, { collection: 'itinerary', action: 'set', docId: item.id, payload: item }),
+    updateItinerary: (item) => enqueueMutation(tripId, { collection: 'itinerary', action: 'set', docId: item.id, payload: item }),
+    deleteItinerary: (id) => enqueueMutation(tripId, { collection: 'itinerary', action: 'delete', docId: id }),
+
+    subscribeExpenses: (callback) => withPendingWrites(
+      cb => subscribeToExpenses(tripId, data => cb(upgradeExpenses(data))),
+      (items, pending) => applyPendingWrites(tripId, 'expenses', items, pending),
+      callback
+    ),
+    addExpense: (item) => enqueueMutation(tripId, { collection: 'expenses', action: 'set', docId: item.id, payload: item }),
+    updateExpense: (item) => enqueueMutation(tripId, { collection: 'expenses', action: 'set', docId: item.id, payload: item }),
+    deleteExpense: (id) => enqueueMutation(tripId, { collection: 'expenses', action: 'delete', docId: id }),
+
+    subscribeSettlements: (callback) => withPendingWrites(
+      cb => subscribeToSettlements(tripId, cb),
+      (items, pending) => applyPendingWrites(tripId, 'settlements', items, pending),
+      callback
+    ),
+    addSettlement: (payment) => enqueueMutation(tripId, { collection: 'settlements', action: 'set', docId: payment.id, payload: payment }),
+    deleteSettlement: (id) => enqueueMutation(tripId, { collection: 'settlements', action: 'delete', docId: id }),
+
+    subscribePhotos: (callback) => {
+      let cloud: Photo[] = [];
+      let local: Photo[] = [];
+      const emit = () => {
+        const merged = [...cloud, ...local.filter(p => !cloud.some(c => c.id === p.id))];
+        callback(merged.sort((a, b) => Number(b.id) - Number(a.id)));
+      };
+
+      const unsubLocal = localPhotos.subscribe(list => { local = list; emit(); });
+      // Only subscribe if storage is enabled to avoid broken image links
+      const unsubCloud = isStorageInitialized()
+        ? subscribeToPhotos(tripId, list => { cloud = list; emit(); })
+        : () => {};
+
+      return () => {
+        unsubLocal();
+        unsubCloud();
+      };
+    },
+    addPhoto: async (photo) => {
+      if (isStorageInitialized()) {
+        try {
+          await uploadPhotoToCloud(tripId, photo);
+          return;
+        } catch (e) {
+          console.warn("Cloud upload failed, falling back to local", e);
+        }
+      }
+      await localPhotos.add(photo);
+    },
+    deletePhoto: async (photo) => {
+      if (isStorageInitialized() && photo.uploaded) {
+        await deletePhotoFromCloud(tripId, photo);
+      } else {
+        await localPhotos.remove(photo.id);
+      }
+    },
+
+    // Budget and profiles are written directly rather than through the outbox: small fields on the trip document, last writer wins
+    subscribeBudget: (callback) => subscribeToBudget(tripId, callback),
+    saveBudget: (budget) => syncSaveBudget(tripId, budget),
+    subscribeProfiles: (callback) => subscribeToProfiles(tripId, callback),
+    saveProfile: (name, profile) => syncSaveProfile(tripId, name, profile),
+
+    saveReceipt: async (id, dataUrl) => {
+      if (isStorageInitialized()) {
+        try {
+          return await uploadReceiptToCloud(tripId, id, dataUrl);
+        } catch (e) {
+          console.warn("Receipt upload failed, keeping it on this device", e);
+        }
+      }
+      return localReceipts.save(id, dataUrl);
+    },
+    deleteReceipt: async (receipt) => {
+      if (receipt.startsWith(LOCAL_RECEIPT_PREFIX)) await localReceipts.remove(receipt);
+      else await deleteReceiptFromCloud(receipt);
+    },
+
+    subscribeActivity: (callback) => subscribeToActivity(tripId, callback),
+  };
+};
@@ -1,4 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { Category } from "../types";
+import { EXPENSE_CATEGORIES } from "../utils/categories";
 
 // Access environment variable safely (handles cases where meta might be restricted)
 const getApiKey = () => {
@@ -72,13 +74,13 @@ export const suggestItineraryItem = async (currentItems: string[]): Promise<{ ti
   }
 }
 
-export const getAIWeatherForecast = async (dates: string[]): Promise<any[]> => {
+export const getAIWeatherForecast = async (dates: string[], destination: string = 'Seoul'): Promise<any[]> => {
   if (!ai) return [];
   
   try {
     const prompt = `
-      Generate a realistic winter weather forecast for Seoul for these dates: ${dates.join(', ')}.
-      Since this is in the future (2026), base it on historical averages for January (usually cold, -5C to 2C, some snow).
+      Generate a realistic weather forecast for ${destination} for these dates: ${dates.join(', ')}.
+      Since these dates may be in the future, base it on historical averages for ${destination} in that season.
       Return a JSON array where each object has:
       - date (string, matching input)
       - condition (string enum: 'sunny', 'cloudy', 'rain', 'snow')
@@ -110,4 +112,77 @@ export const getAIWeatherForecast = async (dates: string[]): Promise<any[]> => {
     console.error("Weather gen error", error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+export interface ParsedReceipt {
+  merchant: string;
+  total: number;
+  currency: string;      // ISO 4217 code
+  date?: string;         // YYYY-MM-DD
+  time?: string;         // HH:MM
+  category?: Category;
+  lineItems: { name: string; amount: number }[];
+}
+
+export const isReceiptParsingAvailable = () => !!ai;
+
+// Read a receipt photo (data URL) into structured fields for the expense form to review
+export const parseReceipt = async (imageDataUrl: string): Promise<ParsedReceipt | null> => {
+  if (!ai) return null;
+
+  const match = imageDataUrl.match(/^data:(.+?);base64,(.*)$/);
+  if (!match) return null;
+
+  try {
+    const prompt = `
+      This is a photo of a receipt from a trip to Korea.
+      Extract the merchant name, the grand total actually paid, its currency as an ISO 4217 code (₩ is KRW),
+      the date (YYYY-MM-DD) and time (HH:MM) if printed, the kind of purchase, and each line item with its amount.
+      Translate merchant and item names to short English where possible. Amounts are plain numbers without separators.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: match[1], data: match[2] } },
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            merchant: { type: Type.STRING },
+            total: { type: Type.NUMBER },
+            currency: { type: Type.STRING },
+            date: { type: Type.STRING },
+            time: { type: Type.STRING },
+            category: { type: Type.STRING, enum: EXPENSE_CATEGORIES.map(c => c.id) },
+            lineItems: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  amount: { type: Type.NUMBER }
+                },
+                required: ['name', 'amount']
+              }
+            }
+          },
+          required: ['merchant', 'total', 'currency', 'lineItems']
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) return null;
+    const parsed = JSON.parse(text);
+    return { ...parsed, currency: String(parsed.currency || 'KRW').toUpperCase(), lineItems: parsed.lineItems || [] };
+  } catch (error) {
+    console.error("Receipt parsing error", error);
+    return null;
+  }
+};
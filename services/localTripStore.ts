@@ -0,0 +1,125 @@
+import { Photo, TripBudget, MemberProfile, DEFAULT_TRIP_USERS } from '../types';
+import { getPhotosFromDB, addPhotoToDB, deletePhotoFromDB, addReceiptToDB, deleteReceiptFromDB, LOCAL_RECEIPT_PREFIX } from '../utils/db';
+import { tripStorageKey } from '../utils/trips';
+import { TripStore, TripSnapshot, createMemoryTripStore, createObservable } from './tripStore';
+
+// localStorage keys per collection (scoped with tripStorageKey)
+const STORAGE_KEYS = {
+  users: 'seoul-trip-users',
+  itinerary: 'seoul-trip-itinerary',
+  expenses: 'seoul-tool-expenses',
+  settlements: 'seoul-trip-settlements',
+};
+const BUDGET_KEY = 'seoul-trip-budget';
+const PROFILES_KEY = 'seoul-trip-profiles';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return fallback;
+    const parsed = JSON.parse(saved);
+    return Array.isArray(fallback) && !Array.isArray(parsed) ? fallback : parsed;
+  } catch (e) {
+    console.error(`Error loading ${key}`, e);
+    return fallback;
+  }
+};
+
+// Photos of one trip in IndexedDB, loaded once and kept in memory
+export const createLocalPhotoStore = (tripId: string) => {
+  const photos = createObservable<Photo[]>([]);
+
+  getPhotosFromDB(tripId)
+    .then(photos.set)
+    .catch(e => console.error("Error loading local photos", e));
+
+  return {
+    subscribe: photos.subscribe,
+    add: async (photo: Photo) => {
+      const localPhoto = { ...photo, tripId };
+      photos.set([localPhoto, ...photos.get()]);
+      await addPhotoToDB(localPhoto);
+    },
+    remove: async (id: string) => {
+      photos.set(photos.get().filter(p => p.id !== id));
+      await deletePhotoFromDB(id);
+    }
+  };
+};
+
+const readLocalLists = (tripId: string): Omit<TripSnapshot, 'photos'> => {
+  const keyFor = (key: keyof typeof STORAGE_KEYS) => tripStorageKey(STORAGE_KEYS[key], tripId);
+  return {
+    users: readJson<string[]>(keyFor('users'), DEFAULT_TRIP_USERS),
+    itinerary: readJson(keyFor('itinerary'), []),
+    expenses: readJson(keyFor('expenses'), []),
+    settlements: readJson(keyFor('settlements'), []),
+  };
+};
+
+// Everything a trip has on this device, read once (used when moving local data to the cloud)
+export const readLocalTripSnapshot = async (tripId: string): Promise<TripSnapshot> => ({
+  ...readLocalLists(tripId),
+  photos: await getPhotosFromDB(tripId),
+});
+
+// Receipt images on this device. Deleting a cloud reference is left to the cloud store.
+export const createLocalReceiptStore = (tripId: string) => ({
+  save: (id: string, dataUrl: string) => addReceiptToDB(id, tripId, dataUrl),
+  remove: async (receipt: string) => {
+    if (receipt.startsWith(LOCAL_RECEIPT_PREFIX)) await deleteReceiptFromDB(receipt);
+  }
+});
+
+// One JSON value in localStorage (the budget, passenger profiles), kept in memory
+export const createLocalValueStore = <T>(base: string, tripId: string, fallback: T) => {
+  const key = tripStorageKey(base, tripId);
+  const value = createObservable<T>(readJson<T>(key, fallback));
+  return {
+    get: value.get,
+    subscribe: value.subscribe,
+    save: async (next: T) => {
+      value.set(next);
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch (e) {
+        console.error(`Failed to persist ${base}`, e);
+      }
+    }
+  };
+};
+
+// Device-only store: localStorage for lists, the budget and profiles, IndexedDB for photos and receipts
+export const createLocalTripStore = (tripId: string): TripStore => {
+  const keyFor = (key: keyof typeof STORAGE_KEYS) => tripStorageKey(STORAGE_KEYS[key], tripId);
+
+  const persist = <K extends keyof TripSnapshot>(key: K, value: TripSnapshot[K]) => {
+    if (key === 'photos') return;
+    try {
+      localStorage.setItem(keyFor(key as keyof typeof STORAGE_KEYS), JSON.stringify(value));
+    } catch (e) {
+      console.error(`Failed to persist ${key}`, e);
+    }
+  };
+
+  const memory = createMemoryTripStore(tripId, readLocalLists(tripId), persist);
+
+  const photos = createLocalPhotoStore(tripId);
+  const receipts = createLocalReceiptStore(tripId);
+  const budget = createLocalValueStore<TripBudget>(BUDGET_KEY, tripId, {});
+  const profiles = createLocalValueStore<Record<string, MemberProfile>>(PROFILES_KEY, tripId, {});
+
+  return {
+    ...memory,
+    sharesPhotos: false,
+    subscribePhotos: photos.subscribe,
+    addPhoto: photos.add,
+    deletePhoto: (photo) => photos.remove(photo.id),
+    subscribeBudget: budget.subscribe,
+    saveBudget: budget.save,
+    subscribeProfiles: profiles.subscribe,
+    saveProfile: (name, profile) => profiles.save({ ...profiles.get(), [name]: profile }),
+    saveReceipt: receipts.save,
+    deleteReceipt: receipts.remove,
+  };
+};
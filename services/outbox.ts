@@ -0,0 +1,260 @@
+import { ExpenseItem, ItineraryItem, SettlementPayment } from '../types';
+import { openDB } from '../utils/db';
+import { createObservable, Unsubscribe } from './tripStore';
+import {
+  isFirebaseInitialized, WriteConflictError,
+  syncAddUser, syncRemoveUser,
+  syncUpdateItinerary, syncDeleteItinerary,
+  syncAddExpense, syncDeleteExpense,
+  syncSaveSettlement, syncDeleteSettlement
+} from './firebase';
+
+// ============================================================================
+// OUTBOX
+//
+// Cloud writes are recorded in IndexedDB first and replayed in order when a
+// connection is available, so edits made offline survive a reload.
+// Only the latest write per document is kept. Writes the server rejects are
+// parked as failed until the user retries or discards them; edits that raced
+// someone else's are parked as conflicts for the views to resolve.
+// ============================================================================
+
+const STORE_NAME = 'outbox';
+const WRITE_TIMEOUT_MS = 15000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export type OutboxMutation =
+  | { collection: 'users'; action: 'add' | 'remove'; docId: string }
+  | { collection: 'itinerary'; action: 'set'; docId: string; payload: ItineraryItem }
+  | { collection: 'expenses'; action: 'set'; docId: string; payload: ExpenseItem }
+  | { collection: 'settlements'; action: 'set'; docId: string; payload: SettlementPayment }
+  | { collection: 'itinerary' | 'expenses' | 'settlements'; action: 'delete'; docId: string };
+
+export type OutboxEntry = OutboxMutation & {
+  seq?: number;          // IndexedDB key, gives replay order
+  tripId: string;
+  createdAt: number;
+  attempts: number;
+  error?: string;
+  failed?: boolean;      // Rejected by the server; waits for retry/discard
+  conflict?: ItineraryItem | ExpenseItem | SettlementPayment; // The cloud version this edit collided with (failed is also set)
+};
+
+export interface OutboxState {
+  pending: OutboxEntry[];
+  failed: OutboxEntry[];
+  conflicts: OutboxEntry[];
+}
+
+const state = createObservable<OutboxState>({ pending: [], failed: [], conflicts: [] });
+
+// --- IndexedDB ---
+
+const readEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as OutboxEntry[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const refreshState = async () => {
+  const entries = await readEntries();
+  state.set({
+    pending: entries.filter(e => !e.failed),
+    failed: entries.filter(e => e.failed && !e.conflict),
+    conflicts: entries.filter(e => e.conflict),
+  });
+};
+
+const putEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME).put(entry);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteEntry = async (seq: number): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME).delete(seq);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Replace any queued write to the same document, then append the new one (in one transaction)
+const appendEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      (request.result as OutboxEntry[])
+        .filter(e => e.tripId === entry.tripId && e.collection === entry.collection && e.docId === entry.docId)
+        .forEach(e => store.delete(e.seq!));
+      store.add(entry);
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Replay ---
+
+const execute = (entry: OutboxEntry): Promise<void> => {
+  const { tripId } = entry;
+  switch (entry.collection) {
+    case 'users':
+      return entry.action === 'add' ? syncAddUser(tripId, entry.docId) : syncRemoveUser(tripId, entry.docId);
+    case 'itinerary':
+      return entry.action === 'set' ? syncUpdateItinerary(tripId, entry.payload) : syncDeleteItinerary(tripId, entry.docId);
+    case 'expenses':
+      return entry.action === 'set' ? syncAddExpense(tripId, entry.payload) : syncDeleteExpense(tripId, entry.docId);
+    case 'settlements':
+      return entry.action === 'set' ? syncSaveSettlement(tripId, entry.payload) : syncDeleteSettlement(tripId, entry.docId);
+  }
+};
+
+// Firestore keeps retrying unacknowledged writes itself; we only stop waiting for them
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Write timed out')), ms);
+  promise.then(
+    value => { clearTimeout(timer); resolve(value); },
+    error => { clearTimeout(timer); reject(error); }
+  );
+});
+
+// Errors that will not go away by trying again
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument', 'not-found', 'already-exists', 'out-of-range', 'unimplemented', 'data-loss'];
+const isPermanentError = (e: any) => PERMANENT_ERROR_CODES.includes(e?.code);
+
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleRetry = (attempts: number) => {
+  if (retryTimer) return;
+  const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+};
+
+const drain = async () => {
+  while (isFirebaseInitialized() && navigator.onLine) {
+    const next = (await readEntries()).find(e => !e.failed);
+    if (!next) break;
+
+    try {
+      await withTimeout(execute(next), WRITE_TIMEOUT_MS);
+      await deleteEntry(next.seq!);
+    } catch (e: any) {
+      const error = e?.message || String(e);
+      if (e instanceof WriteConflictError) {
+        console.warn("Cloud write conflicts with a newer version", next);
+        await putEntry({ ...next, attempts: next.attempts + 1, error, failed: true, conflict: e.remote as OutboxEntry['conflict'] });
+      } else if (isPermanentError(e)) {
+        console.error("Cloud write rejected", next, e);
+        await putEntry({ ...next, attempts: next.attempts + 1, error, failed: true });
+      } else {
+        console.warn("Cloud write deferred", e);
+        await putEntry({ ...next, attempts: next.attempts + 1, error });
+        scheduleRetry(next.attempts + 1);
+        break;
+      }
+    } finally {
+      await refreshState();
+    }
+  }
+};
+
+// Replay queued writes in order. Safe to call at any time; concurrent calls share one run.
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) {
+    // A write queued while draining may have been missed by the last read; go round once more
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = drain()
+    .catch(e => console.error("Outbox flush failed", e))
+    .finally(() => {
+      flushing = null;
+      if (flushAgain) {
+        flushAgain = false;
+        flushOutbox();
+      }
+    });
+  return flushing;
+};
+
+// Record a cloud write. Resolves once it is safely stored on this device, not when it reaches the server.
+export const enqueueMutation = async (tripId: string, mutation: OutboxMutation): Promise<void> => {
+  await appendEntry({ ...mutation, tripId, createdAt: Date.now(), attempts: 0 });
+  await refreshState();
+  flushOutbox();
+};
+
+export const retryFailedWrite = async (entry: OutboxEntry) => {
+  await putEntry({ ...entry, failed: false, attempts: 0 });
+  await refreshState();
+  flushOutbox();
+};
+
+export const discardFailedWrite = async (entry: OutboxEntry) => {
+  await deleteEntry(entry.seq!);
+  await refreshState();
+};
+
+// 'mine' re-applies the edit on top of the cloud version; 'theirs' drops it
+export const resolveConflict = async (entry: OutboxEntry, keep: 'mine' | 'theirs') => {
+  if (keep === 'theirs' || !entry.conflict || entry.action !== 'set') {
+    return discardFailedWrite(entry);
+  }
+  const payload = { ...entry.payload, revision: entry.conflict.revision ?? 0, updatedAt: Date.now() };
+  // Queuing the same document replaces the parked entry
+  await enqueueMutation(entry.tripId, { collection: entry.collection, action: 'set', docId: entry.docId, payload } as OutboxMutation);
+};
+
+export const subscribeOutbox = (callback: (state: OutboxState) => void): Unsubscribe => state.subscribe(callback);
+
+// Load what previous sessions left behind and replay it whenever the device comes back online
+export const startOutbox = (): Unsubscribe => {
+  const onOnline = () => flushOutbox();
+  window.addEventListener('online', onOnline);
+  refreshState()
+    .then(() => flushOutbox())
+    .catch(e => console.error("Failed to load outbox", e));
+  return () => window.removeEventListener('online', onOnline);
+};
+
+// Overlay a trip's queued writes on a cloud snapshot so offline edits stay visible
+export const applyPendingWrites = <T extends { id: string }>(
+  tripId: string,
+  collection: 'itinerary' | 'expenses' | 'settlements',
+  items: T[],
+  entries: OutboxEntry[]
+): T[] => {
+  return entries
+    .filter(e => e.tripId === tripId && e.collection === collection)
+    .reduce((list, e) => {
+      if (e.action !== 'set') return list.filter(i => i.id !== e.docId);
+      const item = e.payload as unknown as T;
+      return list.some(i => i.id === item.id) ? list.map(i => i.id === item.id ? item : i) : [...list, item];
+    }, items);
+};
+
+export const applyPendingUsers = (tripId: string, users: string[], entries: OutboxEntry[]): string[] => {
+  return entries
+    .filter(e => e.tripId === tripId && e.collection === 'users')
+    .reduce((list, e) => {
+      if (e.action === 'remove') return list.filter(u => u !== e.docId);
+      return list.includes(e.docId) ? list : [...list, e.docId];
+    }, users);
+};
@@ -0,0 +1,162 @@
+import { ItineraryItem, ExpenseItem, SettlementPayment, Photo, Trip, TripBudget, MemberProfile, Revisioned, ActivityEntry, DEFAULT_TRIP_USERS } from '../types';
+
+export type Unsubscribe = () => void;
+
+// One trip's data, wherever it lives (localStorage/IndexedDB, Firestore, or memory for tests).
+// Subscribers are called immediately with the current value and again after every change.
+export interface TripStore {
+  readonly tripId: string;
+  readonly isShared: boolean;     // true when changes reach other devices
+  readonly sharesPhotos: boolean; // true when photos reach other devices
+
+  // Persist trip metadata (name, dates, initial members) for a newly created trip
+  saveTrip: (trip: Trip) => Promise<void>;
+  // Bring stored records up to the current schema (see utils/migrations)
+  migrate: () => Promise<void>;
+
+  subscribeUsers: (callback: (users: string[]) => void) => Unsubscribe;
+  addUser: (name: string) => Promise<void>;
+  removeUser: (name: string) => Promise<void>;
+
+  // Settlement currency and payment details per passenger name
+  subscribeProfiles: (callback: (profiles: Record<string, MemberProfile>) => void) => Unsubscribe;
+  saveProfile: (name: string, profile: MemberProfile) => Promise<void>;
+
+  subscribeItinerary: (callback: (items: ItineraryItem[]) => void) => Unsubscribe;
+  addItinerary: (item: ItineraryItem) => Promise<void>;
+  updateItinerary: (item: ItineraryItem) => Promise<void>;
+  deleteItinerary: (id: string) => Promise<void>;
+
+  subscribeExpenses: (callback: (expenses: ExpenseItem[]) => void) => Unsubscribe;
+  addExpense: (item: ExpenseItem) => Promise<void>;
+  updateExpense: (item: ExpenseItem) => Promise<void>;
+  deleteExpense: (id: string) => Promise<void>;
+
+  // Repayments between passengers; recorded or removed, never edited
+  subscribeSettlements: (callback: (payments: SettlementPayment[]) => void) => Unsubscribe;
+  addSettlement: (payment: SettlementPayment) => Promise<void>;
+  deleteSettlement: (id: string) => Promise<void>;
+
+  subscribePhotos: (callback: (photos: Photo[]) => void) => Unsubscribe;
+  addPhoto: (photo: Photo) => Promise<void>;
+  deletePhoto: (photo: Photo) => Promise<void>;
+
+  // Spending limits shared by the whole group
+  subscribeBudget: (callback: (budget: TripBudget) => void) => Unsubscribe;
+  saveBudget: (budget: TripBudget) => Promise<void>;
+
+  // Receipt images for expenses. saveReceipt returns the reference to store in ExpenseItem.receipt.
+  saveReceipt: (id: string, dataUrl: string) => Promise<string>;
+  deleteReceipt: (receipt: string) => Promise<void>;
+
+  // Who changed what, newest first. Only shared stores keep a log.
+  subscribeActivity: (callback: (entries: ActivityEntry[]) => void) => Unsubscribe;
+}
+
+// Observable value with synchronous listeners
+export const createObservable = <T>(initial: T) => {
+  let value = initial;
+  const listeners = new Set<(value: T) => void>();
+
+  return {
+    get: () => value,
+    set: (next: T) => {
+      value = next;
+      listeners.forEach(listener => listener(value));
+    },
+    subscribe: (listener: (value: T) => void): Unsubscribe => {
+      listeners.add(listener);
+      listener(value);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export interface TripSnapshot {
+  users: string[];
+  itinerary: ItineraryItem[];
+  expenses: ExpenseItem[];
+  settlements: SettlementPayment[];
+  photos: Photo[];
+}
+
+// In-memory store. Used directly in tests, and as the cache behind the local store.
+// onChange fires after every mutation with the collection that changed.
+export const createMemoryTripStore = (
+  tripId: string,
+  seed: Partial<TripSnapshot> = {},
+  onChange?: <K extends keyof TripSnapshot>(key: K, value: TripSnapshot[K]) => void
+): TripStore => {
+  const users = createObservable<string[]>(seed.users || DEFAULT_TRIP_USERS);
+  const itinerary = createObservable<ItineraryItem[]>(seed.itinerary || []);
+  const expenses = createObservable<ExpenseItem[]>(seed.expenses || []);
+  const settlements = createObservable<SettlementPayment[]>(seed.settlements || []);
+  const photos = createObservable<Photo[]>(seed.photos || []);
+  const budget = createObservable<TripBudget>({});
+  const profiles = createObservable<Record<string, MemberProfile>>({});
+
+  const commit = <K extends keyof TripSnapshot>(key: K, observable: { set: (v: TripSnapshot[K]) => void }, value: TripSnapshot[K]) => {
+    observable.set(value);
+    if (onChange) onChange(key, value);
+  };
+
+  const upsert = <T extends { id: string }>(list: T[], item: T) =>
+    list.some(i => i.id === item.id) ? list.map(i => i.id === item.id ? item : i) : [...list, item];
+
+  // Same revision bookkeeping as the cloud store; one device cannot conflict with itself
+  const bump = <T extends Revisioned>(item: T): T => ({ ...item, revision: (item.revision ?? 0) + 1 });
+
+  return {
+    tripId,
+    isShared: false,
+    sharesPhotos: false,
+
+    saveTrip: async (trip) => {
+      commit('users', users, trip.members.length > 0 ? trip.members : DEFAULT_TRIP_USERS);
+    },
+    // Memory data is created by the current version; localStorage is migrated on startup
+    migrate: async () => {},
+
+    subscribeUsers: users.subscribe,
+    addUser: async (name) => {
+      if (!users.get().includes(name)) commit('users', users, [...users.get(), name]);
+    },
+    removeUser: async (name) => {
+      commit('users', users, users.get().filter(u => u !== name));
+    },
+
+    subscribeProfiles: profiles.subscribe,
+    saveProfile: async (name, profile) => profiles.set({ ...profiles.get(), [name]: profile }),
+
+    subscribeItinerary: itinerary.subscribe,
+    addItinerary: async (item) => commit('itinerary', itinerary, upsert(itinerary.get(), bump(item))),
+    updateItinerary: async (item) => commit('itinerary', itinerary, upsert(itinerary.get(), bump(item))),
+    deleteItinerary: async (id) => commit('itinerary', itinerary, itinerary.get().filter(i => i.id !== id)),
+
+    subscribeExpenses: expenses.subscribe,
+    addExpense: async (item) => commit('expenses', expenses, upsert(expenses.get(), bump(item))),
+    updateExpense: async (item) => commit('expenses', expenses, upsert(expenses.get(), bump(item))),
+    deleteExpense: async (id) => commit('expenses', expenses, expenses.get().filter(e => e.id !== id)),
+
+    subscribeSettlements: settlements.subscribe,
+    addSettlement: async (payment) => commit('settlements', settlements, upsert(settlements.get(), bump(payment))),
+    deleteSettlement: async (id) => commit('settlements', settlements, settlements.get().filter(p => p.id !== id)),
+
+    subscribePhotos: photos.subscribe,
+    // Newest first, matching the order of the IndexedDB and Firestore listings
+    addPhoto: async (photo) => commit('photos', photos, [photo, ...photos.get().filter(p => p.id !== photo.id)]),
+    deletePhoto: async (photo) => commit('photos', photos, photos.get().filter(p => p.id !== photo.id)),
+
+    subscribeBudget: budget.subscribe,
+    saveBudget: async (next) => budget.set(next),
+
+    // Nothing to upload: the data URL itself is the reference
+    saveReceipt: async (_id, dataUrl) => dataUrl,
+    deleteReceipt: async () => {},
+
+    subscribeActivity: (callback) => {
+      callback([]);
+      return () => {};
+    },
+  };
+};
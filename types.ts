@@ -1,9 +1,16 @@
 
-export type Tab = 'settle' | 'tool' | 'plan' | 'photo' | 'library';
+export type Tab = 'settle' | 'tool' | 'plan' | 'photo' | 'library' | 'activity';
 
-export type Category = 'shopping' | 'dining' | 'transport' | 'sightseeing' | 'other';
+export type Category = 'shopping' | 'dining' | 'transport' | 'sightseeing' | 'hotel' | 'other';
 
-export interface ItineraryItem {
+// Edit metadata for records several people can change at once
+export interface Revisioned {
+  updatedAt?: number;  // ms timestamp of the last edit
+  updatedBy?: string;  // Passenger who made it
+  revision?: number;   // Bumped by every cloud write; an edit based on an older revision is a conflict
+}
+
+export interface ItineraryItem extends Revisioned {
   id: string;
   date: string; // YYYY-MM-DD
   time: string; // HH:MM
@@ -14,15 +21,97 @@ export interface ItineraryItem {
   completed: boolean;
 }
 
-export interface ExpenseItem {
+export type SplitMode = 'equal' | 'shares' | 'percent' | 'exact' | 'itemized';
+
+// One line of an itemized receipt, shared by its own set of people
+export interface ExpenseLineItem {
+  id: string;
+  name: string;
+  cost: number;       // In the expense's currency
+  splitBy: string[];
+}
+
+export interface ExpenseItem extends Revisioned {
   id: string;
   name: string;
   cost: number;
-  payer: string; // Who paid
+  payer: string; // Who paid (the largest payer when several chipped in)
+  // Set when more than one person paid: amount each paid, in the expense's currency, summing to cost
+  payers?: Record<string, number>;
   // Deprecated: isShared (keep for backward compatibility if needed, but logic moves to splitBy)
   isShared?: boolean; 
   // New: List of names who share this expense
   splitBy: string[]; 
+  // How the cost is divided among splitBy (missing = equal)
+  splitMode?: SplitMode;
+  // Per-person value for the non-equal modes: shares (weights), percentages, or exact amounts
+  splitWeights?: Record<string, number>;
+  // Itemized mode: the receipt's lines, plus tax and service charge shared on top of them.
+  // splitBy is then everyone on any line.
+  lineItems?: ExpenseLineItem[];
+  tax?: number;
+  serviceCharge?: number;
+  // How tax and service are shared: in proportion to each person's lines (default) or equally
+  extrasAllocation?: 'proportional' | 'equal';
+  // Currency the cost was paid in (missing = KRW) and KRW per unit of it, locked when entered
+  currency?: string;
+  rateToBase?: number;
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  category?: Category;
+  // Hotel expenses: the stay runs from `date` (check-in) to this day (missing = trip end)
+  checkOut?: string; // YYYY-MM-DD
+  // Plan activity this was spent on
+  itineraryItemId?: string;
+  // Receipt image: a Storage URL, or "local:<id>" for one kept in this device's IndexedDB
+  receipt?: string;
+}
+
+export type SettlementMethod = 'cash' | 'transfer' | 'app' | 'other';
+
+// A repayment between passengers ("from" paid "to"), recorded against the suggested transfers
+export interface SettlementPayment extends Revisioned {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;       // In `currency`
+  currency: string;
+  rateToBase: number;   // KRW per unit, locked when recorded
+  method: SettlementMethod;
+  note?: string;
+  at: number;           // ms timestamp of the payment
+}
+
+// Per-passenger settings everyone on the trip can see (keyed by passenger name)
+export interface MemberProfile {
+  settleCurrency?: string;  // Currency they pay and want to be paid in
+  bankAccount?: string;
+  linePayId?: string;
+  tossLink?: string;
+  // When they are on the trip (missing = from the start / to the end). Departure day is not a night stayed.
+  arrival?: string;    // YYYY-MM-DD
+  departure?: string;  // YYYY-MM-DD
+}
+
+// Spending limits the group agreed on, in KRW. Missing fields mean no limit.
+export interface TripBudget {
+  total?: number;                                    // Whole trip, everyone together
+  perCategory?: Partial<Record<Category, number>>;   // Whole trip, per category
+  perPersonDaily?: number;                           // What each person consumes in one day
+}
+
+// One line of a trip's cloud activity log (trips/{tripId}/activity)
+export type ActivityType = 'expense' | 'itinerary' | 'photo' | 'passenger' | 'budget' | 'settlement';
+export type ActivityAction = 'add' | 'update' | 'delete';
+
+export interface ActivityEntry {
+  id: string;
+  at: number;        // ms timestamp
+  actor: string;     // Passenger whose device made the change
+  type: ActivityType;
+  action: ActivityAction;
+  targetId: string;
+  label: string;     // Expense name, plan title, photo date or passenger name at the time
 }
 
 export interface WeatherInfo {
@@ -39,16 +128,42 @@ export interface Photo {
   date: string;
   uploaded?: boolean; // Track if uploaded to cloud
   author?: string;    // Name of the user who took the photo
+  tripId?: string;    // Trip the photo belongs to (missing = DEFAULT_TRIP)
 }
 
-// Fixed Date Range for the trip
-export const TRIP_START = '2026-01-16';
-export const TRIP_END = '2026-01-20';
-export const SEOUL_LOCATION = { lat: 37.5665, lng: 126.9780 };
+export interface Trip {
+  id: string;
+  name: string;
+  destination: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  location?: { lat: number; lng: number };
+  members: string[];
+}
+
+export interface TripInvite {
+  code: string;       // Short human-typeable code (also the Firestore doc id)
+  tripId: string;
+  createdBy: string;
+  createdAt: number;  // epoch ms
+  expiresAt: number;  // epoch ms
+  revoked?: boolean;
+}
 
 // Default Initial Users (State will be managed in App.tsx)
 export const DEFAULT_TRIP_USERS = ['Me'];
 
+// The original Seoul trip. Its id matches the Firestore document the app used before multi-trip support.
+export const DEFAULT_TRIP: Trip = {
+  id: 'seoul_2026_jan',
+  name: 'Seoul Trip 2026',
+  destination: 'Seoul',
+  startDate: '2026-01-16',
+  endDate: '2026-01-20',
+  location: { lat: 37.5665, lng: 126.9780 },
+  members: DEFAULT_TRIP_USERS
+};
+
 export interface FirebaseConfig {
   apiKey: string;
   authDomain: string;
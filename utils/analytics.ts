@@ -0,0 +1,84 @@
+import { Category, ExpenseItem, Trip } from '../types';
+import { getExpensePayments } from './splits';
+import { toBase } from './currency';
+import { getBudgetSpend, getExpenseDay } from './budget';
+import { getTripDates } from './trips';
+import { EXPENSE_CATEGORIES } from './categories';
+
+// Figures for the Settle tab charts, all in KRW and computed from the expenses alone (works offline)
+
+export interface PersonSpend {
+  name: string;
+  consumed: number;  // Their share of everything
+  paid: number;      // What they put in
+  perDay: number;    // consumed spread over the trip's days
+}
+
+export interface MerchantSpend {
+  name: string;
+  total: number;
+  count: number;
+}
+
+export interface SpendingAnalytics {
+  total: number;
+  // Every trip day in order (empty days included), then any spend dated outside the trip
+  byDay: { day: string; total: number }[];
+  byCategory: { category: Category; total: number }[];
+  byPerson: PersonSpend[];
+  topMerchants: MerchantSpend[];
+  days: number;
+  averagePerPersonPerDay: number;
+}
+
+const TOP_MERCHANTS = 5;
+
+export const getSpendingAnalytics = (
+  expenses: ExpenseItem[],
+  tripUsers: string[],
+  trip: Pick<Trip, 'startDate' | 'endDate'>
+): SpendingAnalytics => {
+  const spend = getBudgetSpend(expenses, tripUsers);
+
+  const dayTotals: Record<string, number> = Object.fromEntries(getTripDates(trip).map(day => [day, 0]));
+  const paid: Record<string, number> = {};
+  const merchants: Record<string, MerchantSpend> = {};
+  expenses.forEach(item => {
+    const cost = toBase(item);
+    const day = getExpenseDay(item);
+    dayTotals[day] = (dayTotals[day] || 0) + cost;
+
+    Object.entries(getExpensePayments(item)).forEach(([name, amount]) => {
+      paid[name] = (paid[name] || 0) + toBase(item, amount);
+    });
+
+    // Same name, any case or spacing, counts as the same place
+    const key = item.name.trim().toLowerCase();
+    const merchant = merchants[key] || (merchants[key] = { name: item.name.trim(), total: 0, count: 0 });
+    merchant.total += cost;
+    merchant.count += 1;
+  });
+
+  const days = Math.max(getTripDates(trip).length, 1);
+  const people = Array.from(new Set([...tripUsers, ...Object.keys(spend.byPersonDay), ...Object.keys(paid)]));
+  const byPerson = people.map(name => {
+    const consumed = Object.values(spend.byPersonDay[name] || {}).reduce((a, b) => a + b, 0);
+    return { name, consumed, paid: paid[name] || 0, perDay: consumed / days };
+  });
+  const consumers = byPerson.filter(p => p.consumed > 0).length;
+
+  return {
+    total: spend.total,
+    byDay: Object.entries(dayTotals)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, total]) => ({ day, total })),
+    byCategory: EXPENSE_CATEGORIES
+      .map(c => ({ category: c.id, total: spend.byCategory[c.id] || 0 }))
+      .filter(c => c.total > 0)
+      .sort((a, b) => b.total - a.total),
+    byPerson: byPerson.sort((a, b) => b.consumed - a.consumed),
+    topMerchants: Object.values(merchants).sort((a, b) => b.total - a.total).slice(0, TOP_MERCHANTS),
+    days,
+    averagePerPersonPerDay: consumers > 0 ? spend.total / consumers / days : 0,
+  };
+};
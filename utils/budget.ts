@@ -0,0 +1,92 @@
+import { Category, ExpenseItem, TripBudget } from '../types';
+import { getExpenseShares } from './splits';
+import { toBase, formatMoney } from './currency';
+import { toLocalDate } from './trips';
+
+// What has been spent against each kind of limit, in KRW
+export interface BudgetSpend {
+  total: number;
+  byCategory: Partial<Record<Category, number>>;
+  // Person -> day (YYYY-MM-DD) -> their share of that day's expenses
+  byPersonDay: Record<string, Record<string, number>>;
+}
+
+export interface BudgetWarning {
+  key: string;      // "total", "category:<id>" or "person:<name>:<day>"
+  message: string;
+}
+
+// Drop zero, negative and empty limits so the stored budget has no undefined fields (Firestore rejects them)
+export const cleanBudget = (budget: TripBudget): TripBudget => {
+  const clean: TripBudget = {};
+  if (budget.total && budget.total > 0) clean.total = budget.total;
+  if (budget.perPersonDaily && budget.perPersonDaily > 0) clean.perPersonDaily = budget.perPersonDaily;
+  const perCategory = Object.fromEntries(
+    Object.entries(budget.perCategory || {}).filter(([, limit]) => !!limit && limit > 0)
+  ) as Partial<Record<Category, number>>;
+  if (Object.keys(perCategory).length > 0) clean.perCategory = perCategory;
+  return clean;
+};
+
+export const hasBudget = (budget: TripBudget): boolean =>
+  !!budget.total || !!budget.perPersonDaily || Object.keys(budget.perCategory || {}).length > 0;
+
+// Older expenses without a date fall back to when they were created (their id is a timestamp)
+export const getExpenseDay = (item: ExpenseItem): string =>
+  item.date || toLocalDate(Number(item.id) || Date.now());
+
+// Who consumed an expense; same fallback for legacy records as the settlement
+export const getBeneficiaries = (item: ExpenseItem, tripUsers: string[]): string[] =>
+  item.splitBy && item.splitBy.length > 0 ? item.splitBy : (item.isShared ? tripUsers : [item.payer]);
+
+export const getBudgetSpend = (expenses: ExpenseItem[], tripUsers: string[]): BudgetSpend => {
+  const spend: BudgetSpend = { total: 0, byCategory: {}, byPersonDay: {} };
+  expenses.forEach(item => {
+    const cost = toBase(item);
+    const category = item.category || 'other';
+    spend.total += cost;
+    spend.byCategory[category] = (spend.byCategory[category] || 0) + cost;
+
+    const day = getExpenseDay(item);
+    const shares = getExpenseShares({ ...item, splitBy: getBeneficiaries(item, tripUsers) });
+    Object.entries(shares).forEach(([name, share]) => {
+      const days = spend.byPersonDay[name] || (spend.byPersonDay[name] = {});
+      days[day] = (days[day] || 0) + toBase(item, share);
+    });
+  });
+  return spend;
+};
+
+// Limits that would be exceeded once `candidate` is saved (it replaces any expense with the same id).
+// Only limits the candidate actually adds to are reported.
+export const getBudgetWarnings = (
+  expenses: ExpenseItem[],
+  candidate: ExpenseItem,
+  budget: TripBudget,
+  tripUsers: string[],
+  categoryLabel: (category: Category) => string = c => c
+): BudgetWarning[] => {
+  if (!hasBudget(budget) || !(candidate.cost > 0)) return [];
+  const others = expenses.filter(e => e.id !== candidate.id);
+  const before = getBudgetSpend(others, tripUsers);
+  const after = getBudgetSpend([...others, candidate], tripUsers);
+  const warnings: BudgetWarning[] = [];
+
+  const check = (key: string, label: string, limit: number | undefined, was: number, now: number) => {
+    if (!limit || now <= limit || now <= was) return;
+    const verb = was > limit ? 'is already over' : 'goes over';
+    warnings.push({ key, message: `${label} ${verb} budget: ${formatMoney(now)} of ${formatMoney(limit)}` });
+  };
+
+  check('total', 'Trip total', budget.total, before.total, after.total);
+
+  const category = candidate.category || 'other';
+  check(`category:${category}`, categoryLabel(category), budget.perCategory?.[category], before.byCategory[category] || 0, after.byCategory[category] || 0);
+
+  const day = getExpenseDay(candidate);
+  Object.keys(after.byPersonDay).forEach(name => {
+    check(`person:${name}:${day}`, `${name} on ${day.slice(5)}`, budget.perPersonDaily,
+      before.byPersonDay[name]?.[day] || 0, after.byPersonDay[name][day] || 0);
+  });
+  return warnings;
+};
@@ -0,0 +1,14 @@
+import { Category } from '../types';
+
+// Expense categories in picker order, with their short labels
+export const EXPENSE_CATEGORIES: { id: Category; label: string }[] = [
+  { id: 'dining', label: 'EAT' },
+  { id: 'shopping', label: 'SHOP' },
+  { id: 'transport', label: 'MOVE' },
+  { id: 'sightseeing', label: 'VIEW' },
+  { id: 'hotel', label: 'STAY' },
+  { id: 'other', label: 'OTHER' },
+];
+
+export const getCategoryLabel = (category?: Category) =>
+  EXPENSE_CATEGORIES.find(c => c.id === (category || 'other'))!.label;
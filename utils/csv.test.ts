@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { ExpenseItem } from '../types';
+import { parseCsv, toCsv, parseCsvDate, buildCsvImport, guessCsvMapping } from './csv';
+
+describe('parseCsvDate', () => {
+  it('reads year-first dates with any separator', () => {
+    expect(parseCsvDate('2026-01-16')).toBe('2026-01-16');
+    expect(parseCsvDate('2026/1/6')).toBe('2026-01-06');
+    expect(parseCsvDate('2026.01.16 19:30')).toBe('2026-01-16');
+  });
+
+  it('reads slashed dates month first', () => {
+    expect(parseCsvDate('01/16/2026')).toBe('2026-01-16');
+    expect(parseCsvDate('1/6/2026')).toBe('2026-01-06');
+  });
+
+  it('reads slashed dates day first when the first part cannot be a month', () => {
+    expect(parseCsvDate('16/01/2026')).toBe('2026-01-16');
+  });
+
+  it('reads dotted dates day first', () => {
+    expect(parseCsvDate('16.01.2026')).toBe('2026-01-16');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseCsvDate('2026-13-01')).toBeNull();
+    expect(parseCsvDate('2026-02-30')).toBeNull();
+    expect(parseCsvDate('13/13/2026')).toBeNull();
+    expect(parseCsvDate('32.01.2026')).toBeNull();
+    expect(parseCsvDate('0/10/2026')).toBeNull();
+    expect(parseCsvDate('yesterday')).toBeNull();
+  });
+
+  it('knows leap years', () => {
+    expect(parseCsvDate('2028-02-29')).toBe('2028-02-29');
+    expect(parseCsvDate('2026-02-29')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('round-trips quotes, commas and newlines', () => {
+    const rows = [['Item', 'Note'], ['Tteok, spicy', 'said "wow"\nthen left']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('buildCsvImport', () => {
+  const rows = [
+    ['Date', 'Item', 'Amount'],
+    ['2026-01-16', 'Dinner', '30,000'],
+    ['16/01/2026', 'Taxi', '12000'],
+    ['2026-16-01', 'Broken', '1000'],
+    ['2026-01-17', 'Refund', '-5000'],
+    ['2026-01-17', 'Card refund', '(2,000)'],
+    ['2026-01-17', 'Nothing', 'abc'],
+  ];
+  const defaults = { payer: 'Me', splitBy: ['Me', 'Bo'], currency: 'KRW', tripUsers: ['Me', 'Bo'], rates: {} };
+  const result = buildCsvImport(rows, guessCsvMapping(rows[0]), true, [], defaults);
+
+  it('imports valid rows', () => {
+    expect(result[0].expense).toMatchObject({ name: 'Dinner', cost: 30000, date: '2026-01-16', splitBy: ['Me', 'Bo'] });
+    expect(result[1].expense).toMatchObject({ name: 'Taxi', date: '2026-01-16' });
+  });
+
+  it('reports impossible dates on their line', () => {
+    expect(result[2]).toMatchObject({ line: 4, error: expect.stringContaining('2026-16-01') });
+    expect(result[2].expense).toBeUndefined();
+  });
+
+  it('skips negative amounts instead of turning them into charges', () => {
+    expect(result[3].expense).toBeUndefined();
+    expect(result[3].error).toContain('-5000');
+    expect(result[4].expense).toBeUndefined();
+    expect(result[4].error).toContain('(2,000)');
+  });
+
+  it('reports unreadable amounts', () => {
+    expect(result[5].error).toContain('abc');
+  });
+
+  it('flags rows that match an existing expense', () => {
+    const existing: ExpenseItem = { id: '1', name: 'Dinner', cost: 30000, payer: 'Me', splitBy: ['Me'], date: '2026-01-16' };
+    const [row] = buildCsvImport(rows.slice(0, 2), guessCsvMapping(rows[0]), true, [existing], defaults);
+    expect(row.duplicateOf).toBe(existing);
+  });
+});
@@ -0,0 +1,244 @@
+import { ExpenseItem, Category } from '../types';
+import { getExpenseShares, getExpensePayments } from './splits';
+import { BASE_CURRENCY, RateTable, rateToBaseFor, roundToCurrency, toBase } from './currency';
+import { getBeneficiaries, getExpenseDay } from './budget';
+import { EXPENSE_CATEGORIES } from './categories';
+import { Transfer } from './settlement';
+
+// --- Reading and writing CSV (RFC 4180: quoted fields, doubled quotes, CRLF rows) ---
+
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel read the file as UTF-8 (Korean and Chinese names)
+export const toCsv = (rows: (string | number)[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// --- Export ---
+
+const formatShares = (shares: Record<string, number>, currency: string) =>
+  Object.entries(shares).map(([name, amount]) => `${name}: ${roundToCurrency(amount, currency)}`).join('; ');
+
+// One row per expense, with its KRW value at the locked rate and its TWD value at `exchangeRate` (TWD per KRW)
+export const expensesToCsv = (expenses: ExpenseItem[], tripUsers: string[], exchangeRate: number): string => {
+  const header = ['Date', 'Time', 'Item', 'Category', 'Amount', 'Currency', 'KRW', 'TWD', 'Paid by', 'Split mode', 'Split between', 'Shares'];
+  const rows = expenses
+    .slice()
+    .sort((a, b) => `${getExpenseDay(a)} ${a.time || ''}`.localeCompare(`${getExpenseDay(b)} ${b.time || ''}`))
+    .map(item => {
+      const currency = item.currency || BASE_CURRENCY;
+      const krw = toBase(item);
+      return [
+        getExpenseDay(item),
+        item.time || '',
+        item.name,
+        item.category || 'other',
+        item.cost,
+        currency,
+        Math.round(krw),
+        Math.round(krw * exchangeRate),
+        formatShares(getExpensePayments(item), currency),
+        item.splitMode || 'equal',
+        getBeneficiaries(item, tripUsers).join('; '),
+        formatShares(getExpenseShares({ ...item, splitBy: getBeneficiaries(item, tripUsers) }), currency),
+      ];
+    });
+  return toCsv([header, ...rows]);
+};
+
+// Transfers in KRW, plus the amount in the currency the Settle tab shows
+export const settlementToCsv = (suggestions: Transfer[], currency: string, rates: RateTable): string => {
+  const showConverted = currency !== BASE_CURRENCY;
+  const header = ['From', 'To', 'KRW', ...(showConverted ? [currency] : [])];
+  const rows = suggestions.map(s => [
+    s.from,
+    s.to,
+    Math.round(s.amount),
+    ...(showConverted ? [roundToCurrency(s.amount * (rates[currency] ?? 0), currency)] : []),
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+// --- Import ---
+
+export type CsvField = 'date' | 'time' | 'name' | 'amount' | 'currency' | 'payer' | 'category';
+
+// Column index per field (-1 = not in the file)
+export type CsvMapping = Record<CsvField, number>;
+
+export const CSV_FIELDS: { id: CsvField; label: string; required?: boolean }[] = [
+  { id: 'date', label: 'Date', required: true },
+  { id: 'name', label: 'Item / merchant', required: true },
+  { id: 'amount', label: 'Amount', required: true },
+  { id: 'currency', label: 'Currency' },
+  { id: 'time', label: 'Time' },
+  { id: 'payer', label: 'Paid by' },
+  { id: 'category', label: 'Category' },
+];
+
+// Header words that identify a column, in English, Korean and Chinese (card statements)
+const HEADER_HINTS: Record<CsvField, RegExp> = {
+  date: /date|day|日期|일자|날짜|이용일/i,
+  time: /time|時間|시간/i,
+  name: /item|merchant|description|name|payee|商店|商家|摘要|가맹점|내용/i,
+  amount: /amount|cost|price|total|金額|금액/i,
+  currency: /currency|ccy|幣別|币种|통화/i,
+  payer: /paid by|payer|付款人|결제자/i,
+  category: /category|type|類別|분류/i,
+};
+
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const used = new Set<number>();
+  const mapping = {} as CsvMapping;
+  CSV_FIELDS.forEach(({ id }) => {
+    const index = headers.findIndex((h, i) => !used.has(i) && HEADER_HINTS[id].test(h));
+    mapping[id] = index;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+// "YYYY-MM-DD" if the parts make a real calendar day, else null
+const toIsoDay = (year: string, month: string, day: string): string | null => {
+  const y = Number(year);
+  const m = Number(month);
+  const d = Number(day);
+  if (m < 1 || m > 12 || d < 1 || d > new Date(Date.UTC(y, m, 0)).getUTCDate()) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// "2026-01-16", "2026/1/16", "2026.01.16", "01/16/2026", "16/01/2026" or "16.01.2026" -> "2026-01-16".
+// Slashed dates are month first unless the first part can only be a day; impossible dates give null.
+export const parseCsvDate = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return toIsoDay(match[1], match[2], match[3]);
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (match) return Number(match[1]) > 12 ? toIsoDay(match[3], match[2], match[1]) : toIsoDay(match[3], match[1], match[2]);
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (match) return toIsoDay(match[3], match[2], match[1]);
+  return null;
+};
+
+const parseCsvTime = (value: string): string | undefined => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})/);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+};
+
+const parseCategory = (value: string): Category | undefined => {
+  const text = value.trim().toLowerCase();
+  return EXPENSE_CATEGORIES.find(c => c.id === text || c.label.toLowerCase() === text)?.id;
+};
+
+export interface CsvImportDefaults {
+  payer: string;
+  splitBy: string[];
+  currency: string;
+  tripUsers: string[];
+  rates: RateTable;
+}
+
+export interface CsvImportRow {
+  line: number;           // 1-based row in the file
+  expense?: ExpenseItem;
+  error?: string;
+  duplicateOf?: ExpenseItem;  // Already in the trip (or earlier in the same file)
+}
+
+// Same day, same amount in the same currency: most likely the same purchase typed in by hand
+const isSamePurchase = (a: ExpenseItem, b: ExpenseItem) =>
+  getExpenseDay(a) === getExpenseDay(b)
+  && (a.currency || BASE_CURRENCY) === (b.currency || BASE_CURRENCY)
+  && Math.abs(a.cost - b.cost) < 0.01;
+
+// Turn mapped rows into expenses split evenly among `defaults.splitBy`, flagging probable duplicates
+export const buildCsvImport = (
+  rows: string[][],
+  mapping: CsvMapping,
+  hasHeader: boolean,
+  existing: ExpenseItem[],
+  defaults: CsvImportDefaults
+): CsvImportRow[] => {
+  const cell = (row: string[], field: CsvField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '').trim();
+  const baseId = Date.now();
+  const accepted: ExpenseItem[] = [];
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, index): CsvImportRow => {
+    const line = index + (hasHeader ? 2 : 1);
+    const date = parseCsvDate(cell(row, 'date'));
+    if (!date) return { line, error: `Unreadable or impossible date "${cell(row, 'date')}"` };
+    const name = cell(row, 'name');
+    if (!name) return { line, error: 'No item name' };
+
+    const currencyCell = cell(row, 'currency').toUpperCase();
+    const currency = currencyCell || defaults.currency;
+    if (currency !== BASE_CURRENCY && !(defaults.rates[currency] > 0)) return { line, error: `No rate for ${currency}` };
+    const amountCell = cell(row, 'amount');
+    const amount = parseFloat(amountCell.replace(/[^0-9.-]/g, ''));
+    // Statements show refunds as "-1,200" or "(1,200)"; they are not charges, so leave them out
+    if (amount < 0 || /^\(.*\)$/.test(amountCell)) return { line, error: `Negative amount "${amountCell}" (refund?) skipped` };
+    const cost = roundToCurrency(amount, currency);
+    if (!(cost > 0)) return { line, error: `Unreadable amount "${amountCell}"` };
+
+    // Our own export writes "Name: amount"
+    const payerCell = cell(row, 'payer').split(':')[0].trim();
+    const payer = defaults.tripUsers.includes(payerCell) ? payerCell : defaults.payer;
+    const time = parseCsvTime(cell(row, 'time'));
+
+    const expense: ExpenseItem = {
+      id: (baseId + index).toString(),
+      name,
+      cost,
+      payer,
+      isShared: defaults.splitBy.length > 1,
+      splitBy: defaults.splitBy,
+      splitMode: 'equal',
+      currency,
+      rateToBase: rateToBaseFor(currency, defaults.rates),
+      date,
+      ...(time ? { time } : {}),
+      category: parseCategory(cell(row, 'category')) || 'other',
+    };
+    const duplicateOf = existing.find(e => isSamePurchase(e, expense)) || accepted.find(e => isSamePurchase(e, expense));
+    accepted.push(expense);
+    return { line, expense, ...(duplicateOf ? { duplicateOf } : {}) };
+  });
+};
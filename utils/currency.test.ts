@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { availableCurrencies, formatMoney, getCurrency, rateToBaseFor } from './currency';
+
+describe('availableCurrencies', () => {
+  it('lists the common currencies first, then every other priced code A-Z', () => {
+    const rates = { KRW: 1, VND: 18, TWD: 0.0235, THB: 0.025, USD: 0, AUD: 0.0011 };
+    expect(availableCurrencies(rates).map(c => c.code)).toEqual(['KRW', 'TWD', 'AUD', 'THB', 'VND']);
+  });
+});
+
+describe('getCurrency', () => {
+  it('takes the minor units of an uncommon code from Intl', () => {
+    expect(getCurrency('VND').decimals).toBe(0);
+    expect(getCurrency('THB').decimals).toBe(2);
+    expect(formatMoney(1234.5, 'VND')).toBe(`VND ${(1235).toLocaleString()}`);
+  });
+
+  it('falls back to two decimals for an unknown code', () => {
+    expect(getCurrency('XYZ1').decimals).toBe(2);
+  });
+
+  it('prices any code in the table against KRW', () => {
+    expect(rateToBaseFor('THB', { THB: 0.025 })).toBe(40);
+  });
+});
@@ -0,0 +1,86 @@
+import { ExpenseItem } from '../types';
+
+// All balances are kept in this currency; every expense records how much one unit of its own currency
+// was worth in it (rateToBase) at the time it was entered.
+export const BASE_CURRENCY = 'KRW';
+
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'KRW', symbol: '₩', decimals: 0 },
+  { code: 'TWD', symbol: 'NT$', decimals: 0 },
+  { code: 'USD', symbol: 'US$', decimals: 2 },
+  { code: 'JPY', symbol: '¥', decimals: 0 },
+  { code: 'EUR', symbol: '€', decimals: 2 },
+];
+
+// Units of each currency per 1 KRW (the shape of exchangerate-api's /latest/KRW table)
+export type RateTable = Record<string, number>;
+
+// Minor units of any ISO code, e.g. 0 for VND (2 if the browser does not know it)
+const currencyDecimals = (code: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+export const getCurrency = (code?: string): CurrencyInfo =>
+  CURRENCIES.find(c => c.code === (code || BASE_CURRENCY)) || { code: code || BASE_CURRENCY, symbol: `${code} `, decimals: currencyDecimals(code || BASE_CURRENCY) };
+
+// The short list offered as buttons; every other priced currency goes in a dropdown
+export const isCommonCurrency = (code: string): boolean => CURRENCIES.some(c => c.code === code);
+
+// Currencies we can convert right now: the common ones first, then the rest of the table A-Z
+export const availableCurrencies = (rates: RateTable): CurrencyInfo[] => [
+  ...CURRENCIES.filter(c => c.code === BASE_CURRENCY || rates[c.code] > 0),
+  ...Object.keys(rates).filter(code => !isCommonCurrency(code) && rates[code] > 0).sort().map(getCurrency),
+];
+
+// Units of `to` per 1 `from`, for any pair the table covers (null if either side is missing)
+export const getPairRate = (from: string, to: string, rates: RateTable): number | null => {
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  return fromRate > 0 && toRate > 0 ? toRate / fromRate : null;
+};
+
+export const convert = (amount: number, from: string, to: string, rates: RateTable): number | null => {
+  const rate = getPairRate(from, to, rates);
+  return rate === null ? null : amount * rate;
+};
+
+// A copy of the table in which 1 `from` = `rate` `to`. The side already priced against KRW stays put.
+export const setPairRate = (rates: RateTable, from: string, to: string, rate: number): RateTable => {
+  const next: RateTable = { ...rates, [BASE_CURRENCY]: 1 };
+  if (from === to || !(rate > 0)) return next;
+  if (to === BASE_CURRENCY) next[from] = 1 / rate;
+  else if (from === BASE_CURRENCY || next[from] > 0) next[to] = rate * (from === BASE_CURRENCY ? 1 : next[from]);
+  else next[from] = next[to] / rate;
+  return next;
+};
+
+// KRW per 1 unit of `code`, for locking onto a new expense
+export const rateToBaseFor = (code: string, rates: RateTable): number =>
+  getPairRate(code, BASE_CURRENCY, rates) ?? 1;
+
+// An expense's cost in KRW at the rate captured when it was entered
+export const toBase = (item: Pick<ExpenseItem, 'cost' | 'rateToBase'>, amount: number = item.cost): number =>
+  amount * (item.rateToBase ?? 1);
+
+export const convertFromBase = (amount: number, code: string, rates: RateTable): number =>
+  code === BASE_CURRENCY ? amount : amount * (rates[code] ?? 0);
+
+export const roundToCurrency = (amount: number, code: string): number => {
+  const factor = 10 ** getCurrency(code).decimals;
+  return Math.round(amount * factor) / factor;
+};
+
+export const formatMoney = (amount: number, code: string = BASE_CURRENCY): string => {
+  const { symbol, decimals } = getCurrency(code);
+  return `${symbol}${roundToCurrency(amount, code).toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`;
+};
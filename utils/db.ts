@@ -1,9 +1,11 @@
 
-import { Photo } from '../types';
+import { Photo, DEFAULT_TRIP } from '../types';
+import { SCHEMA_VERSION, runIndexedDBMigrations } from './migrations';
 
 const DB_NAME = 'SeoulTripDB';
 const STORE_NAME = 'photos';
-const DB_VERSION = 1;
+// Follows the schema version so every migration with an IndexedDB step triggers an upgrade
+const DB_VERSION = SCHEMA_VERSION;
 
 // Open Database
 export const openDB = (): Promise<IDBDatabase> => {
@@ -24,6 +26,7 @@ export const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      runIndexedDBMigrations(db, request.transaction!, event.oldVersion);
     };
   });
 };
@@ -41,13 +44,13 @@ export const addPhotoToDB = async (photo: Photo): Promise<void> => {
   });
 };
 
-// Get All Photos
-export const getPhotosFromDB = async (): Promise<Photo[]> => {
+// Get All Photos of a trip (legacy records were tagged with DEFAULT_TRIP by migration v2)
+export const getPhotosFromDB = async (tripId: string = DEFAULT_TRIP.id): Promise<Photo[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readonly');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+    const request = store.index('tripId').getAll(tripId);
 
     request.onsuccess = () => {
       // Sort by date descending (newest first) implicitly by ID or Date if needed
@@ -85,3 +88,40 @@ export const clearPhotosFromDB = async (): Promise<void> => {
     request.onerror = () => reject(request.error);
   });
 };
+
+// --- Receipts ---
+// Receipt images kept on this device are referenced from their expense as "local:<id>"
+
+const RECEIPT_STORE = 'receipts';
+export const LOCAL_RECEIPT_PREFIX = 'local:';
+
+// Save a receipt image; returns the reference to put on the expense
+export const addReceiptToDB = async (id: string, tripId: string, dataUrl: string): Promise<string> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([RECEIPT_STORE], 'readwrite').objectStore(RECEIPT_STORE).put({ id, tripId, dataUrl });
+    request.onsuccess = () => resolve(`${LOCAL_RECEIPT_PREFIX}${id}`);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteReceiptFromDB = async (receipt: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([RECEIPT_STORE], 'readwrite').objectStore(RECEIPT_STORE).delete(receipt.slice(LOCAL_RECEIPT_PREFIX.length));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Displayable URL for an expense's receipt: cloud URLs pass through, local ones are read from IndexedDB.
+// Null when the image lives on another device.
+export const getReceiptImage = async (receipt: string): Promise<string | null> => {
+  if (!receipt.startsWith(LOCAL_RECEIPT_PREFIX)) return receipt;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([RECEIPT_STORE], 'readonly').objectStore(RECEIPT_STORE).get(receipt.slice(LOCAL_RECEIPT_PREFIX.length));
+    request.onsuccess = () => resolve(request.result ? request.result.dataUrl : null);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rateToBaseFor } from './currency';
+
+// In-memory stand-in for the IndexedDB 'rates' store: put by id, getAll through the 'day' index
+const quotes = new Map<string, any>();
+const request = (run: () => unknown) => {
+  const req: any = {};
+  queueMicrotask(() => { req.result = run(); req.onsuccess?.(); });
+  return req;
+};
+vi.mock('./db', () => ({
+  openDB: async () => ({
+    transaction: () => ({
+      objectStore: () => ({
+        put: (quote: any) => request(() => { quotes.set(quote.id, quote); }),
+        index: () => ({ getAll: () => request(() => Array.from(quotes.values())) }),
+      }),
+    }),
+  }),
+}));
+
+const createStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    key: (i: number) => Array.from(data.keys())[i] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, String(value)); },
+    removeItem: (key: string) => { data.delete(key); },
+    clear: () => data.clear(),
+  };
+};
+
+let service: typeof import('../services/exchangeRates');
+
+// Fetch a table from a fixture provider as if it were the given local day
+const refreshOn = async (day: string, table: Record<string, number>, id = 'fixture-test') => {
+  vi.setSystemTime(new Date(`${day}T12:00:00`));
+  await service.refreshRates(service.createFixtureProvider(table, id));
+};
+
+describe('exchange rates', () => {
+  beforeEach(async () => {
+    quotes.clear();
+    vi.stubGlobal('localStorage', createStorage());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.resetModules();
+    service = await import('../services/exchangeRates');
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('starts from the built-in table until rates are fetched', () => {
+    expect(service.getRateState()).toMatchObject({ rates: service.FIXTURE_RATES, updatedAt: null, source: 'fixture' });
+  });
+
+  it('applies a refreshed table, caches it and records one quote per day', async () => {
+    await refreshOn('2026-01-16', { TWD: 0.025 });
+    const state = service.getRateState();
+    expect(state).toMatchObject({ rates: { KRW: 1, TWD: 0.025 }, source: 'fixture-test', isRefreshing: false });
+    expect(JSON.parse(localStorage.getItem('seoul-exchange-rates')!).rates.TWD).toBe(0.025);
+
+    await refreshOn('2026-01-16', { TWD: 0.026 });
+    expect(Array.from(quotes.keys())).toEqual(['2026-01-16:fixture-test']);
+    expect(quotes.get('2026-01-16:fixture-test').rates.TWD).toBe(0.026);
+  });
+
+  it('keeps the cached table and reports the error when a refresh fails', async () => {
+    await refreshOn('2026-01-16', { TWD: 0.025 });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await service.refreshRates({ id: 'down', label: 'Down', fetchRates: async () => { throw new Error('offline'); } });
+    expect(service.getRateState()).toMatchObject({ rates: { TWD: 0.025 }, error: 'offline', isRefreshing: false });
+  });
+
+  it('layers a manual rate over the current table', async () => {
+    await refreshOn('2026-01-16', { TWD: 0.025, USD: 0.00075 });
+    await service.setManualRate('TWD', 'KRW', 42);
+    const state = service.getRateState();
+    expect(state.source).toBe('manual');
+    expect(rateToBaseFor('TWD', state.rates)).toBeCloseTo(42);
+    expect(state.rates.USD).toBe(0.00075);
+  });
+
+  it('finds the latest quote on or before a day', async () => {
+    await refreshOn('2026-01-10', { TWD: 0.020 });
+    await refreshOn('2026-01-14', { TWD: 0.022 });
+    await refreshOn('2026-01-18', { TWD: 0.024 });
+    expect((await service.getRatesForDay('2026-01-14'))?.rates.TWD).toBe(0.022);
+    expect((await service.getRatesForDay('2026-01-16'))?.rates.TWD).toBe(0.022);
+    expect(await service.getRatesForDay('2026-01-01')).toBeNull();
+  });
+
+  describe('locking a back-dated expense', () => {
+    beforeEach(async () => {
+      await refreshOn('2026-01-12', { TWD: 0.025 });         // 40 KRW per TWD
+      await refreshOn('2026-01-18', { TWD: 0.02, JPY: 0.1 }); // 50 KRW per TWD, today
+    });
+
+    it('locks the rate recorded on the expense day', async () => {
+      const { rates, day } = service.getLockRates('TWD', service.getRateState().rates, await service.getRatesForDay('2026-01-13'));
+      expect(day).toBe('2026-01-12');
+      expect(rateToBaseFor('TWD', rates)).toBeCloseTo(40);
+    });
+
+    it('falls back to the current rate before any recorded day', async () => {
+      const { rates, day } = service.getLockRates('TWD', service.getRateState().rates, await service.getRatesForDay('2026-01-05'));
+      expect(day).toBeNull();
+      expect(rateToBaseFor('TWD', rates)).toBeCloseTo(50);
+    });
+
+    it('falls back to the current rate when that day did not price the currency', async () => {
+      const { rates, day } = service.getLockRates('JPY', service.getRateState().rates, await service.getRatesForDay('2026-01-13'));
+      expect(day).toBeNull();
+      expect(rateToBaseFor('JPY', rates)).toBeCloseTo(10);
+    });
+
+    it('never needs a table for KRW itself', async () => {
+      expect(service.getLockRates('KRW', {}, await service.getRatesForDay('2026-01-13')).day).toBeNull();
+    });
+  });
+});
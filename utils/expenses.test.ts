@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ExpenseItem } from '../types';
+import { applyExpenseEdit } from './expenses';
+import { splitByNights } from './members';
+
+const trip = { startDate: '2026-01-16', endDate: '2026-01-20' };
+const profiles = { Bo: { arrival: '2026-01-18' } };
+
+const hotel: ExpenseItem = {
+  id: '1',
+  name: 'Hotel',
+  cost: 300000,
+  payer: 'Me',
+  splitBy: ['Me', 'Bo'],
+  category: 'hotel',
+  date: '2026-01-16',
+  checkOut: '2026-01-18',
+  revision: 2,
+};
+
+// What the form produces for the same expense, minus the fields it leaves empty
+const { id, checkOut, revision, ...formFields } = hotel;
+
+describe('applyExpenseEdit', () => {
+  it('drops a cleared check-out, so the stay runs to the end of the trip again', () => {
+    const edited = applyExpenseEdit(hotel, formFields);
+    expect(edited).not.toHaveProperty('checkOut');
+    expect(edited).toMatchObject({ id: '1', revision: 2 });
+    // Bo arrives on the 18th: no nights before check-out, two after it
+    expect(splitByNights(hotel, profiles, trip).splitWeights).toEqual({ Me: 2, Bo: 0 });
+    expect(splitByNights(edited, profiles, trip).splitWeights).toEqual({ Me: 4, Bo: 2 });
+  });
+
+  it('drops check-out when the category changes away from hotel', () => {
+    expect(applyExpenseEdit(hotel, { ...formFields, category: 'dining' })).not.toHaveProperty('checkOut');
+  });
+
+  it('keeps a check-out the form still sets, and the receipt it passes', () => {
+    const edited = applyExpenseEdit(hotel, { ...formFields, checkOut: '2026-01-19' }, 'local:r1');
+    expect(edited).toMatchObject({ checkOut: '2026-01-19', receipt: 'local:r1' });
+  });
+
+  it('drops the old receipt when none is passed', () => {
+    expect(applyExpenseEdit({ ...hotel, receipt: 'local:r0' }, formFields)).not.toHaveProperty('receipt');
+  });
+});
@@ -0,0 +1,17 @@
+import { ExpenseItem } from '../types';
+
+// An edited expense: the form's fields over the stored record. Optional fields the form owns
+// (weights, payers, lines, plan link, receipt, check-out) are dropped first, so clearing one in
+// the form removes it instead of carrying the old value forward; Firestore rejects undefined fields.
+export const applyExpenseEdit = (
+  existing: ExpenseItem,
+  fields: Omit<ExpenseItem, 'id'>,
+  receipt?: string | null
+): ExpenseItem => {
+  const {
+    splitWeights, payers, itineraryItemId, receipt: previousReceipt,
+    lineItems, tax, serviceCharge, extrasAllocation, checkOut,
+    ...previous
+  } = existing;
+  return { ...previous, ...fields, ...(receipt ? { receipt } : {}) };
+};
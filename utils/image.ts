@@ -0,0 +1,26 @@
+// Downscale an image file to a JPEG data URL, the same size/quality trade-off as the camera (PhotoView)
+export const imageFileToDataUrl = (file: File, maxDimension = 1080, quality = 0.7): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      let { width, height } = img;
+      const scale = Math.min(1, maxDimension / Math.max(width, height));
+      width = Math.round(width * scale);
+      height = Math.round(height * scale);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(objectUrl);
+      if (!context) return reject(new Error('Canvas not supported'));
+      context.drawImage(img, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Could not read image'));
+    };
+    img.src = objectUrl;
+  });
@@ -0,0 +1,87 @@
+import { TripInvite, FirebaseConfig } from '../types';
+
+// No 0/O/1/I so codes survive being read aloud or typed from a screenshot
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export const generateInviteCode = (): string => {
+  const values = new Uint32Array(CODE_LENGTH);
+  crypto.getRandomValues(values);
+  return Array.from(values, v => CODE_ALPHABET[v % CODE_ALPHABET.length]).join('');
+};
+
+export const normalizeInviteCode = (code: string): string => code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const CONFIG_FIELDS: (keyof FirebaseConfig)[] = ['apiKey', 'authDomain', 'projectId', 'storageBucket', 'messagingSenderId', 'appId'];
+
+// The Firebase web config is public client config (access is governed by security rules),
+// so the link can carry it and set up cloud sync on a fresh device
+const encodeConfig = (config: FirebaseConfig): string =>
+  btoa(JSON.stringify(CONFIG_FIELDS.map(key => config[key] || '')));
+
+const decodeConfig = (value: string): FirebaseConfig | null => {
+  try {
+    const values: unknown = JSON.parse(atob(value));
+    if (!Array.isArray(values) || values.length !== CONFIG_FIELDS.length || !values.every(v => typeof v === 'string')) return null;
+    const config = Object.fromEntries(CONFIG_FIELDS.map((key, i) => [key, values[i]])) as unknown as FirebaseConfig;
+    return config.apiKey && config.projectId ? config : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface InviteLink {
+  code: string;
+  tripId: string | null;
+  config: FirebaseConfig | null;  // Cloud connection for devices that have none yet
+}
+
+// Link a friend can open (or scan as QR) to land on check-in already bound to the trip
+export const buildInviteUrl = (invite: Pick<TripInvite, 'code' | 'tripId'>, config?: FirebaseConfig | null): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set('invite', invite.code);
+  url.searchParams.set('trip', invite.tripId);
+  if (config) url.searchParams.set('cloud', encodeConfig(config));
+  return url.toString();
+};
+
+export const parseInviteFromUrl = (search: string): InviteLink | null => {
+  const params = new URLSearchParams(search);
+  const code = params.get('invite');
+  if (!code) return null;
+  const cloud = params.get('cloud');
+  return { code: normalizeInviteCode(code), tripId: params.get('trip'), config: cloud ? decodeConfig(cloud) : null };
+};
+
+// A whole invite link pasted where a code is expected
+export const parseInviteLink = (text: string): InviteLink | null => {
+  try {
+    return parseInviteFromUrl(new URL(text.trim()).search);
+  } catch {
+    return null;
+  }
+};
+
+// Drop the invite params so a reload doesn't try to join again
+export const clearInviteFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('invite');
+  url.searchParams.delete('trip');
+  url.searchParams.delete('cloud');
+  window.history.replaceState(null, '', url.toString());
+};
+
+// Returns a user-facing error message, or null if the invite can be used
+export const validateInvite = (invite: TripInvite | null, expectedTripId?: string | null, now: number = Date.now()): string | null => {
+  if (!invite) return 'Invite code not found. Check the code or ask for a new invite.';
+  if (invite.revoked) return 'This invite has been revoked by the trip owner.';
+  if (invite.expiresAt <= now) {
+    return `This invite expired on ${new Date(invite.expiresAt).toLocaleDateString()}. Ask for a new one.`;
+  }
+  if (expectedTripId && invite.tripId !== expectedTripId) return 'This invite link is broken (trip mismatch).';
+  return null;
+};
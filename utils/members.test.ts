@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ExpenseItem } from '../types';
+import { countNights, getPresentUsers, splitByNights } from './members';
+import { computeBalances } from './settlement';
+import { getBudgetSpend } from './budget';
+import { expensesToCsv, parseCsv } from './csv';
+
+const trip = { startDate: '2026-01-16', endDate: '2026-01-20' };  // 4 nights
+const profiles = { Bo: { arrival: '2026-01-18' }, Cy: { departure: '2026-01-19' } };
+
+const hotel: ExpenseItem = {
+  id: '1',
+  name: 'Hotel',
+  cost: 300000,
+  payer: 'Me',
+  splitBy: ['Me', 'Bo', 'Cy'],
+  category: 'hotel',
+  date: '2026-01-16',
+};
+
+describe('presence', () => {
+  it('counts arrival and departure days as present', () => {
+    expect(getPresentUsers(['Me', 'Bo', 'Cy'], profiles, '2026-01-17')).toEqual(['Me', 'Cy']);
+    expect(getPresentUsers(['Me', 'Bo', 'Cy'], profiles, '2026-01-19')).toEqual(['Me', 'Bo', 'Cy']);
+    expect(getPresentUsers(['Me', 'Bo', 'Cy'], profiles, '2026-01-20')).toEqual(['Me', 'Bo']);
+  });
+
+  it('falls back to everyone when nobody is present', () => {
+    expect(getPresentUsers(['Bo'], profiles, '2026-01-16')).toEqual(['Bo']);
+  });
+
+  it('does not count the departure day as a night', () => {
+    expect(countNights(undefined, trip.startDate, trip.endDate)).toBe(4);
+    expect(countNights(profiles.Bo, trip.startDate, trip.endDate)).toBe(2);
+    expect(countNights(profiles.Cy, trip.startDate, trip.endDate)).toBe(3);
+  });
+});
+
+describe('splitByNights', () => {
+  it('weights an equal hotel split by nights stayed', () => {
+    expect(splitByNights(hotel, profiles, trip).splitWeights).toEqual({ Me: 4, Bo: 2, Cy: 3 });
+  });
+
+  it('leaves other categories and custom splits alone', () => {
+    const dinner = { ...hotel, category: 'dining' as const };
+    expect(splitByNights(dinner, profiles, trip)).toBe(dinner);
+    const custom = { ...hotel, splitMode: 'exact' as const, splitWeights: { Me: 100000, Bo: 100000, Cy: 100000 } };
+    expect(splitByNights(custom, profiles, trip)).toBe(custom);
+  });
+
+  it('stops at the check-out date', () => {
+    // Nights of the 16th and 17th only: Bo was not there yet
+    const short = splitByNights({ ...hotel, checkOut: '2026-01-18' }, profiles, trip);
+    expect(short.splitWeights).toEqual({ Me: 2, Bo: 0, Cy: 2 });
+  });
+
+  it('gives the same shares to settlement, budgets and the CSV export', () => {
+    const stays = [splitByNights(hotel, profiles, trip)];
+    const { balances } = computeBalances(stays, [], ['Me', 'Bo', 'Cy']);
+    expect(balances.Bo).toBeCloseTo(-300000 * 2 / 9);
+
+    const spend = getBudgetSpend(stays, ['Me', 'Bo', 'Cy']);
+    expect(spend.byPersonDay.Bo['2026-01-16']).toBeCloseTo(300000 * 2 / 9);
+
+    const [header, row] = parseCsv(expensesToCsv(stays, ['Me', 'Bo', 'Cy'], 0.024));
+    expect(row[header.indexOf('Shares')]).toBe('Me: 133333; Bo: 66667; Cy: 100000');
+  });
+});
@@ -0,0 +1,85 @@
+import { ExpenseItem, MemberProfile, Trip } from '../types';
+import { Transfer } from './settlement';
+import { BASE_CURRENCY, RateTable, convertFromBase, formatMoney } from './currency';
+import { getTripDates } from './trips';
+
+// Payment details a passenger can share, in the order they are shown
+export const PAYMENT_HANDLES: { key: 'bankAccount' | 'linePayId' | 'tossLink'; label: string; placeholder: string }[] = [
+  { key: 'bankAccount', label: 'Bank', placeholder: 'Bank name and account number' },
+  { key: 'linePayId', label: 'LINE Pay', placeholder: 'LINE Pay ID' },
+  { key: 'tossLink', label: 'Toss', placeholder: 'https://toss.me/...' },
+];
+
+// Trim and drop empty fields (Firestore rejects undefined)
+export const cleanProfile = (profile: MemberProfile): MemberProfile =>
+  Object.fromEntries(
+    Object.entries(profile)
+      .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+      .filter(([, value]) => value !== undefined && value !== '')
+  ) as MemberProfile;
+
+// The currency a passenger settles in, if we have a rate for it
+export const getSettleCurrency = (profile: MemberProfile | undefined, rates: RateTable, fallback: string): string => {
+  const code = profile?.settleCurrency;
+  return code && (code === BASE_CURRENCY || rates[code] > 0) ? code : fallback;
+};
+
+export const hasPaymentHandles = (profile?: MemberProfile) => PAYMENT_HANDLES.some(h => !!profile?.[h.key]);
+
+// Plain-text instructions for one transfer, ready to paste into a chat
+export const formatTransferInstructions = (
+  transfer: Transfer,
+  profiles: Record<string, MemberProfile>,
+  rates: RateTable,
+  fallbackCurrency: string
+): string => {
+  const payerCurrency = getSettleCurrency(profiles[transfer.from], rates, fallbackCurrency);
+  const receiverCurrency = getSettleCurrency(profiles[transfer.to], rates, fallbackCurrency);
+  const amounts = Array.from(new Set([receiverCurrency, payerCurrency, BASE_CURRENCY]))
+    .map(code => formatMoney(convertFromBase(transfer.amount, code, rates), code));
+  const receiver = profiles[transfer.to] || {};
+  return [
+    `${transfer.from} → ${transfer.to}: ${amounts[0]}${amounts.length > 1 ? ` (≈ ${amounts.slice(1).join(' / ')})` : ''}`,
+    ...PAYMENT_HANDLES.filter(h => receiver[h.key]).map(h => `${h.label}: ${receiver[h.key]}`),
+  ].join('\n');
+};
+
+// Whether a passenger is on the trip on a day (YYYY-MM-DD). Arrival and departure days both count.
+export const isPresentOn = (profile: MemberProfile | undefined, day: string): boolean =>
+  (!profile?.arrival || profile.arrival <= day) && (!profile?.departure || day <= profile.departure);
+
+// Who is around on a day; everyone if the dates leave nobody (or the day is unknown)
+export const getPresentUsers = (tripUsers: string[], profiles: Record<string, MemberProfile>, day?: string): string[] => {
+  if (!day) return tripUsers;
+  const present = tripUsers.filter(name => isPresentOn(profiles[name], day));
+  return present.length > 0 ? present : tripUsers;
+};
+
+// Nights a passenger spends between check-in and check-out. A night belongs to the day it starts,
+// so it counts from arrival up to (not including) departure.
+export const countNights = (profile: MemberProfile | undefined, checkIn: string, checkOut: string): number =>
+  getTripDates({ startDate: checkIn, endDate: checkOut })
+    .slice(0, -1)
+    .filter(night => (!profile?.arrival || profile.arrival <= night) && (!profile?.departure || night < profile.departure))
+    .length;
+
+// A hotel expense split equally becomes a split by nights stayed (shares = nights).
+// Anything else, or a stay everyone spent in full, is returned unchanged.
+export const splitByNights = (
+  item: ExpenseItem,
+  profiles: Record<string, MemberProfile>,
+  trip: Pick<Trip, 'startDate' | 'endDate'>
+): ExpenseItem => {
+  if (item.category !== 'hotel' || (item.splitMode && item.splitMode !== 'equal')) return item;
+  const people = item.splitBy || [];
+  if (people.length < 2) return item;
+
+  const checkIn = item.date || trip.startDate;
+  const checkOut = item.checkOut || trip.endDate;
+  if (checkOut <= checkIn) return item;
+
+  const nights = Object.fromEntries(people.map(name => [name, countNights(profiles[name], checkIn, checkOut)]));
+  const counts = Object.values(nights);
+  if (counts.every(n => n === counts[0]) || counts.every(n => n === 0)) return item;
+  return { ...item, splitMode: 'shares', splitWeights: nights };
+};
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_TRIP, DEFAULT_TRIP_USERS } from '../types';
+import {
+  MIGRATIONS, SCHEMA_VERSION, SCHEMA_VERSION_KEY,
+  upgradeExpenses, upgradeItinerary, runLocalMigrations, runIndexedDBMigrations, getLocalSchemaVersion
+} from './migrations';
+import { toLocalDate, toLocalTime } from './trips';
+
+const ctx = { users: ['Me', 'Bo', 'Cy'] };
+
+// Run only the record upgrader of one version
+const step = (version: number) => {
+  const migration = MIGRATIONS.find(m => m.version === version)!;
+  return (item: any) => (migration.expense || migration.itinerary)!(item, ctx);
+};
+
+describe('migration list', () => {
+  it('is numbered 1..n without gaps, and SCHEMA_VERSION is the last one', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe('record steps', () => {
+  it('v1 turns a shared legacy expense into a split among the trip users', () => {
+    expect(step(1)({ id: '1', cost: 300, payer: 'Bo', isShared: true })).toMatchObject({ payer: 'Bo', splitBy: ['Me', 'Bo', 'Cy'] });
+  });
+
+  it('v1 turns a private legacy expense into a split of the payer alone', () => {
+    expect(step(1)({ id: '1', cost: 300, payer: 'Bo', isShared: false })).toMatchObject({ splitBy: ['Bo'] });
+  });
+
+  it('v1 defaults a missing payer to Me and keeps an existing splitBy', () => {
+    expect(step(1)({ id: '1', cost: 300 })).toMatchObject({ payer: 'Me', splitBy: ['Me'] });
+    expect(step(1)({ id: '1', cost: 300, payer: 'Me', isShared: true, splitBy: ['Me', 'Bo'] }).splitBy).toEqual(['Me', 'Bo']);
+  });
+
+  it('v4 adds a revision counter to expenses and plans', () => {
+    const migration = MIGRATIONS.find(m => m.version === 4)!;
+    expect(migration.expense!({ id: '1' }, ctx).revision).toBe(0);
+    expect(migration.itinerary!({ id: '1' }, ctx).revision).toBe(0);
+    expect(migration.expense!({ id: '1', revision: 3 }, ctx).revision).toBe(3);
+  });
+
+  it('v5 marks existing splits as equal', () => {
+    expect(step(5)({ id: '1' }).splitMode).toBe('equal');
+    expect(step(5)({ id: '1', splitMode: 'shares' }).splitMode).toBe('shares');
+  });
+
+  it('v6 marks existing expenses as KRW at rate 1', () => {
+    expect(step(6)({ id: '1' })).toMatchObject({ currency: 'KRW', rateToBase: 1 });
+    expect(step(6)({ id: '1', currency: 'TWD', rateToBase: 42 })).toMatchObject({ currency: 'TWD', rateToBase: 42 });
+  });
+
+  it('v8 dates expenses from their timestamp id and adds a category', () => {
+    const createdAt = 1768550400000;
+    expect(step(8)({ id: createdAt.toString() })).toMatchObject({
+      date: toLocalDate(createdAt),
+      time: toLocalTime(createdAt),
+      category: 'other',
+    });
+    expect(step(8)({ id: 'abc', date: '2026-01-17', category: 'dining' })).toMatchObject({ date: '2026-01-17', category: 'dining' });
+    expect(step(8)({ id: 'abc' }).date).toBeUndefined();
+  });
+});
+
+describe('upgradeRecords', () => {
+  const legacy = [
+    { id: '1768550400000', name: 'Dinner', cost: 30000, payer: 'Bo', isShared: true },
+    { id: '1768550400001', name: 'Snack', cost: 2000, payer: 'Cy', isShared: false },
+  ];
+
+  it('brings a v0 expense fully up to date', () => {
+    const [shared] = upgradeExpenses(legacy, 0, ctx);
+    expect(shared).toMatchObject({
+      splitBy: ['Me', 'Bo', 'Cy'],
+      revision: 0,
+      splitMode: 'equal',
+      currency: 'KRW',
+      rateToBase: 1,
+      category: 'other',
+    });
+  });
+
+  it('is idempotent: upgrading already-upgraded records changes nothing', () => {
+    const once = upgradeExpenses(legacy, 0, ctx);
+    expect(upgradeExpenses(once, 0, ctx)).toEqual(once);
+    const plans = upgradeItinerary([{ id: '1', title: 'Palace' }], 0, ctx);
+    expect(upgradeItinerary(plans, 0, ctx)).toEqual(plans);
+  });
+
+  it('only runs steps newer than the stored version', () => {
+    // At v5 already: v1 must not touch the missing splitBy, v6 still adds the currency
+    const [item] = upgradeExpenses([{ id: 'x', cost: 1, payer: 'Bo', isShared: true }], 5, ctx);
+    expect(item.splitBy).toBeUndefined();
+    expect(item.currency).toBe('KRW');
+  });
+
+  it('uses the default passengers without a context', () => {
+    const [item] = upgradeExpenses([{ id: 'x', cost: 1, payer: 'Me', isShared: true }]);
+    expect(item.splitBy).toEqual(DEFAULT_TRIP_USERS);
+  });
+
+  it('returns an empty list for corrupt input', () => {
+    expect(upgradeExpenses(null as any)).toEqual([]);
+  });
+});
+
+// Minimal in-memory localStorage for the node test environment
+const createStorage = (): Storage => {
+  const data = new Map<string, string>();
+  return {
+    get length() { return data.size; },
+    key: (i: number) => Array.from(data.keys())[i] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, String(value)); },
+    removeItem: (key: string) => { data.delete(key); },
+    clear: () => data.clear(),
+  };
+};
+
+describe('runLocalMigrations', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('upgrades every trip with its own passengers and records the schema version', () => {
+    localStorage.setItem('seoul-tool-expenses', JSON.stringify([{ id: '1', cost: 10, payer: 'Me', isShared: true }]));
+    localStorage.setItem('seoul-tool-expenses:osaka', JSON.stringify([{ id: '2', cost: 10, payer: 'Ann', isShared: true }]));
+    localStorage.setItem('seoul-trip-users:osaka', JSON.stringify(['Ann', 'Ben']));
+    localStorage.setItem('seoul-trip-itinerary', JSON.stringify([{ id: '3', title: 'Palace' }]));
+
+    runLocalMigrations();
+
+    expect(JSON.parse(localStorage.getItem('seoul-tool-expenses')!)[0].splitBy).toEqual(DEFAULT_TRIP_USERS);
+    expect(JSON.parse(localStorage.getItem('seoul-tool-expenses:osaka')!)[0].splitBy).toEqual(['Ann', 'Ben']);
+    expect(JSON.parse(localStorage.getItem('seoul-trip-itinerary')!)[0].revision).toBe(0);
+    expect(localStorage.getItem(SCHEMA_VERSION_KEY)).toBe(SCHEMA_VERSION.toString());
+    expect(getLocalSchemaVersion()).toBe(SCHEMA_VERSION);
+  });
+
+  it('does nothing once the stored version is current', () => {
+    localStorage.setItem(SCHEMA_VERSION_KEY, SCHEMA_VERSION.toString());
+    const raw = JSON.stringify([{ id: '1', cost: 10, payer: 'Me', isShared: true }]);
+    localStorage.setItem('seoul-tool-expenses', raw);
+    runLocalMigrations();
+    expect(localStorage.getItem('seoul-tool-expenses')).toBe(raw);
+  });
+
+  it('gives the same result when run again after a version reset', () => {
+    localStorage.setItem('seoul-tool-expenses', JSON.stringify([{ id: '1768550400000', cost: 10, payer: 'Me', isShared: true }]));
+    runLocalMigrations();
+    const first = localStorage.getItem('seoul-tool-expenses');
+    localStorage.setItem(SCHEMA_VERSION_KEY, '0');
+    runLocalMigrations();
+    expect(localStorage.getItem('seoul-tool-expenses')).toBe(first);
+  });
+
+  it('leaves a corrupt collection untouched and still records the version', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('seoul-tool-expenses', '{not json');
+    runLocalMigrations();
+    expect(localStorage.getItem('seoul-tool-expenses')).toBe('{not json');
+    expect(getLocalSchemaVersion()).toBe(SCHEMA_VERSION);
+  });
+});
+
+// Fake IndexedDB database and upgrade transaction, recording the stores and indexes created
+const createFakeDB = (photos: any[] = []) => {
+  const stores: Record<string, { options: any; indexes: string[] }> = {};
+  const db = {
+    objectStoreNames: { contains: (name: string) => name in stores },
+    createObjectStore: (name: string, options: any) => {
+      stores[name] = { options, indexes: [] };
+      return { createIndex: (index: string) => { stores[name].indexes.push(index); } };
+    },
+  };
+  const photoIndexes: string[] = [];
+  const transaction = {
+    objectStore: () => ({
+      indexNames: { contains: (name: string) => photoIndexes.includes(name) },
+      createIndex: (name: string) => { photoIndexes.push(name); },
+      openCursor: () => {
+        const request: any = {};
+        let i = 0;
+        // Walk the records synchronously, like a cursor firing onsuccess per record
+        queueMicrotask(function next() {
+          request.result = i < photos.length ? {
+            value: photos[i],
+            update: (value: any) => { photos[i] = value; },
+            continue: () => { i++; queueMicrotask(next); },
+          } : null;
+          request.onsuccess?.();
+        });
+        return request;
+      },
+    }),
+  };
+  return { db: db as unknown as IDBDatabase, transaction: transaction as unknown as IDBTransaction, stores, photoIndexes, photos };
+};
+
+describe('runIndexedDBMigrations', () => {
+  beforeEach(() => { vi.spyOn(console, 'log').mockImplementation(() => {}); });
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('creates every store on a fresh database', () => {
+    const fake = createFakeDB();
+    runIndexedDBMigrations(fake.db, fake.transaction, 0);
+    expect(Object.keys(fake.stores).sort()).toEqual(['outbox', 'rates', 'receipts']);
+    expect(fake.stores.rates.indexes).toEqual(['day']);
+    expect(fake.stores.receipts.indexes).toEqual(['tripId']);
+    expect(fake.photoIndexes).toEqual(['tripId']);
+  });
+
+  it('v2 tags legacy photos with the default trip', async () => {
+    const fake = createFakeDB([{ id: 'a' }, { id: 'b', tripId: 'osaka' }]);
+    runIndexedDBMigrations(fake.db, fake.transaction, 1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(fake.photos).toEqual([{ id: 'a', tripId: DEFAULT_TRIP.id }, { id: 'b', tripId: 'osaka' }]);
+  });
+
+  it('only runs steps newer than the old version', () => {
+    const fake = createFakeDB();
+    runIndexedDBMigrations(fake.db, fake.transaction, 7);
+    expect(Object.keys(fake.stores)).toEqual(['receipts']);
+    expect(fake.photoIndexes).toEqual([]);
+  });
+
+  it('skips stores that already exist', () => {
+    const fake = createFakeDB();
+    runIndexedDBMigrations(fake.db, fake.transaction, 0);
+    const before = JSON.stringify(fake.stores);
+    runIndexedDBMigrations(fake.db, fake.transaction, 0);
+    expect(JSON.stringify(fake.stores)).toBe(before);
+  });
+});
@@ -0,0 +1,177 @@
+import { DEFAULT_TRIP, DEFAULT_TRIP_USERS, ExpenseItem, ItineraryItem } from '../types';
+import { toLocalDate, toLocalTime } from './trips';
+
+// ============================================================================
+// SCHEMA MIGRATIONS
+//
+// Every change to a persisted model ships as a numbered migration here.
+// The same list drives all three places data lives:
+//   - localStorage: upgraded once on startup (version in SCHEMA_VERSION_KEY)
+//   - IndexedDB:    indexedDB steps run inside onupgradeneeded (DB version == schema version)
+//   - Firestore:    each trip document records its own schemaVersion (see runFirestoreMigrations)
+//
+// Record upgraders must be idempotent: cloud data written by an older app
+// version is passed through them again on read.
+// ============================================================================
+
+export const SCHEMA_VERSION_KEY = 'seoul-schema-version';
+
+export interface RecordContext {
+  users: string[]; // Passenger list of the trip the record belongs to
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  expense?: (item: any, ctx: RecordContext) => any;
+  itinerary?: (item: any, ctx: RecordContext) => any;
+  indexedDB?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Expenses: isShared flag replaced by the splitBy name list',
+    expense: (item, ctx) => {
+      const payer = item.payer || 'Me';
+      const splitBy = Array.isArray(item.splitBy) && item.splitBy.length > 0
+        ? item.splitBy
+        : (item.isShared ? ctx.users : [payer]);
+      return { ...item, payer, splitBy };
+    },
+  },
+  {
+    version: 2,
+    description: 'IndexedDB photos: tag legacy photos with the default trip and index by tripId',
+    indexedDB: (db, transaction) => {
+      const store = transaction.objectStore('photos');
+      if (!store.indexNames.contains('tripId')) store.createIndex('tripId', 'tripId');
+
+      const cursorRequest = store.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if (!cursor.value.tripId) cursor.update({ ...cursor.value, tripId: DEFAULT_TRIP.id });
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'IndexedDB outbox: queue of cloud writes waiting for a connection',
+    indexedDB: (db) => {
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+    },
+  },
+  {
+    version: 4,
+    description: 'Itinerary and expenses: revision counter for conflict detection',
+    expense: (item) => ({ ...item, revision: item.revision ?? 0 }),
+    itinerary: (item) => ({ ...item, revision: item.revision ?? 0 }),
+  },
+  {
+    version: 5,
+    description: 'Expenses: explicit split mode (existing expenses are equal splits)',
+    expense: (item) => ({ ...item, splitMode: item.splitMode || 'equal' }),
+  },
+  {
+    version: 6,
+    description: 'Expenses: currency and locked rate (existing expenses were entered in KRW)',
+    expense: (item) => ({ ...item, currency: item.currency || 'KRW', rateToBase: item.rateToBase ?? 1 }),
+  },
+  {
+    version: 7,
+    description: 'IndexedDB rates: dated history of exchange-rate tables',
+    indexedDB: (db) => {
+      if (!db.objectStoreNames.contains('rates')) db.createObjectStore('rates', { keyPath: 'id' }).createIndex('day', 'day');
+    },
+  },
+  {
+    version: 8,
+    description: 'Expenses: date, time and category (dated from the creation-timestamp id where there is one)',
+    expense: (item) => {
+      const createdAt = Number(item.id);
+      const dated = !item.date && createdAt > 0 ? { date: toLocalDate(createdAt), time: toLocalTime(createdAt) } : {};
+      return { ...item, ...dated, category: item.category || 'other' };
+    },
+  },
+  {
+    version: 9,
+    description: 'IndexedDB receipts: expense receipt images kept on this device',
+    indexedDB: (db) => {
+      if (!db.objectStoreNames.contains('receipts')) db.createObjectStore('receipts', { keyPath: 'id' }).createIndex('tripId', 'tripId');
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+type RecordKind = 'expense' | 'itinerary';
+
+// Run every record upgrader newer than fromVersion over a list of raw records
+export const upgradeRecords = <T>(
+  kind: RecordKind,
+  items: any[],
+  fromVersion: number,
+  ctx: RecordContext = { users: DEFAULT_TRIP_USERS }
+): T[] => {
+  if (!Array.isArray(items)) return [];
+  const steps = MIGRATIONS.filter(m => m.version > fromVersion && m[kind]);
+  return items.map(item => steps.reduce((acc, m) => m[kind]!(acc, ctx), item));
+};
+
+export const upgradeExpenses = (items: any[], fromVersion = 0, ctx?: RecordContext) =>
+  upgradeRecords<ExpenseItem>('expense', items, fromVersion, ctx);
+
+export const upgradeItinerary = (items: any[], fromVersion = 0, ctx?: RecordContext) =>
+  upgradeRecords<ItineraryItem>('itinerary', items, fromVersion, ctx);
+
+// IndexedDB: called from onupgradeneeded with the version the database had before
+export const runIndexedDBMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  MIGRATIONS
+    .filter(m => m.version > oldVersion && m.indexedDB)
+    .forEach(m => {
+      console.log(`IndexedDB migration v${m.version}: ${m.description}`);
+      m.indexedDB!(db, transaction);
+    });
+};
+
+// localStorage collections that hold records, by base key (trip-scoped keys add ":<tripId>")
+const LOCAL_RECORD_KEYS: Record<string, RecordKind> = {
+  'seoul-tool-expenses': 'expense',
+  'seoul-trip-itinerary': 'itinerary',
+};
+const LOCAL_USERS_KEY = 'seoul-trip-users';
+
+export const getLocalSchemaVersion = (): number => {
+  const saved = parseInt(localStorage.getItem(SCHEMA_VERSION_KEY) || '0', 10);
+  return isNaN(saved) ? 0 : saved;
+};
+
+// localStorage: upgrade every trip's collections in place, then record the new version.
+// Runs synchronously on startup before any store reads.
+export const runLocalMigrations = () => {
+  const fromVersion = getLocalSchemaVersion();
+  if (fromVersion >= SCHEMA_VERSION) return;
+
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((k): k is string => !!k);
+
+  keys.forEach(key => {
+    const [base, tripSuffix] = key.split(':');
+    const kind = LOCAL_RECORD_KEYS[base];
+    if (!kind) return;
+
+    try {
+      const items = JSON.parse(localStorage.getItem(key) || '[]');
+      const usersKey = tripSuffix ? `${LOCAL_USERS_KEY}:${tripSuffix}` : LOCAL_USERS_KEY;
+      const users = JSON.parse(localStorage.getItem(usersKey) || 'null');
+      const ctx = { users: Array.isArray(users) && users.length > 0 ? users : DEFAULT_TRIP_USERS };
+      localStorage.setItem(key, JSON.stringify(upgradeRecords(kind, items, fromVersion, ctx)));
+    } catch (e) {
+      console.error(`Migration of ${key} failed; leaving it untouched`, e);
+    }
+  });
+
+  localStorage.setItem(SCHEMA_VERSION_KEY, SCHEMA_VERSION.toString());
+  console.log(`localStorage migrated from schema v${fromVersion} to v${SCHEMA_VERSION}`);
+};
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { ExpenseItem, SettlementPayment } from '../types';
+import { computeBalances, suggestTransfers, roundTransfer } from './settlement';
+
+const expense = (fields: Partial<ExpenseItem>): ExpenseItem => ({
+  id: '1',
+  name: 'Dinner',
+  cost: 0,
+  payer: 'Me',
+  splitBy: [],
+  ...fields,
+});
+
+const payment = (fields: Partial<SettlementPayment>): SettlementPayment => ({
+  id: 'p1',
+  from: 'Bo',
+  to: 'Me',
+  amount: 0,
+  currency: 'KRW',
+  rateToBase: 1,
+  method: 'transfer',
+  at: 0,
+  ...fields,
+});
+
+describe('computeBalances', () => {
+  it('credits the payer and debits everyone in the split', () => {
+    const { balances, paidTotals } = computeBalances(
+      [expense({ cost: 30000, payer: 'Me', splitBy: ['Me', 'Bo', 'Cy'] })],
+      [],
+      ['Me', 'Bo', 'Cy']
+    );
+    expect(balances).toEqual({ Me: 20000, Bo: -10000, Cy: -10000 });
+    expect(paidTotals.Me).toBe(30000);
+  });
+
+  it('converts foreign expenses at their locked rate', () => {
+    const { balances } = computeBalances(
+      [expense({ cost: 100, currency: 'TWD', rateToBase: 42, payer: 'Me', splitBy: ['Me', 'Bo'] })],
+      [],
+      ['Me', 'Bo']
+    );
+    expect(balances).toEqual({ Me: 2100, Bo: -2100 });
+  });
+
+  it('reduces balances by recorded payments', () => {
+    const expenses = [expense({ cost: 30000, payer: 'Me', splitBy: ['Me', 'Bo', 'Cy'] })];
+    const { balances } = computeBalances(expenses, [payment({ from: 'Bo', to: 'Me', amount: 4000 })], ['Me', 'Bo', 'Cy']);
+    expect(balances).toEqual({ Me: 16000, Bo: -6000, Cy: -10000 });
+    expect(suggestTransfers(balances)).toEqual([
+      { from: 'Cy', to: 'Me', amount: 10000 },
+      { from: 'Bo', to: 'Me', amount: 6000 },
+    ]);
+  });
+
+  it('applies payments in another currency at their locked rate', () => {
+    const expenses = [expense({ cost: 20000, payer: 'Me', splitBy: ['Me', 'Bo'] })];
+    const { balances } = computeBalances(expenses, [payment({ amount: 100, currency: 'TWD', rateToBase: 42 })], ['Me', 'Bo']);
+    expect(balances).toEqual({ Me: 5800, Bo: -5800 });
+  });
+
+  it('settles to nothing once payments cover every debt', () => {
+    const expenses = [expense({ cost: 20000, payer: 'Me', splitBy: ['Me', 'Bo'] })];
+    const { balances } = computeBalances(expenses, [payment({ amount: 10000 })], ['Me', 'Bo']);
+    expect(suggestTransfers(balances)).toEqual([]);
+  });
+
+  it('keeps removed passengers who still owe money', () => {
+    const { participants, balances } = computeBalances(
+      [expense({ cost: 10000, payer: 'Me', splitBy: ['Me', 'Gone'] })],
+      [],
+      ['Me']
+    );
+    expect(participants).toContain('Gone');
+    expect(balances.Gone).toBe(-5000);
+  });
+});
+
+describe('suggestTransfers modes', () => {
+  // Three debts that each match one credit exactly
+  const balances = { A: -5000, B: -3000, C: 3000, D: 5000, E: -7000, F: 7000 };
+
+  it('greedy matches largest debt to largest credit', () => {
+    const transfers = suggestTransfers(balances, { mode: 'greedy' });
+    expect(transfers).toEqual([
+      { from: 'E', to: 'F', amount: 7000 },
+      { from: 'A', to: 'D', amount: 5000 },
+      { from: 'B', to: 'C', amount: 3000 },
+    ]);
+  });
+
+  it('minimal pairs off groups that cancel out, where greedy splits debts', () => {
+    const uneven = { A: -6000, B: -4000, C: 4000, D: 3000, E: 3000 };
+    const greedy = suggestTransfers(uneven, { mode: 'greedy' });
+    const minimal = suggestTransfers(uneven, { mode: 'minimal' });
+    expect(greedy).toEqual([
+      { from: 'A', to: 'C', amount: 4000 },
+      { from: 'B', to: 'E', amount: 3000 },
+      { from: 'A', to: 'D', amount: 2000 },
+      { from: 'B', to: 'D', amount: 1000 },
+    ]);
+    expect(minimal).toEqual([
+      { from: 'B', to: 'C', amount: 4000 },
+      { from: 'A', to: 'D', amount: 3000 },
+      { from: 'A', to: 'E', amount: 3000 },
+    ]);
+    // Both clear every balance
+    [greedy, minimal].forEach(transfers => {
+      const left: Record<string, number> = { ...uneven };
+      transfers.forEach(t => { left[t.from] += t.amount; left[t.to] -= t.amount; });
+      expect(Object.values(left).every(v => v === 0)).toBe(true);
+    });
+  });
+
+  it('gives the same transfers whatever order the balances come in', () => {
+    const shuffled = { F: 7000, D: 5000, C: 3000, B: -3000, A: -5000, E: -7000 };
+    expect(suggestTransfers(shuffled)).toEqual(suggestTransfers(balances));
+    expect(suggestTransfers(shuffled, { mode: 'minimal' })).toEqual(suggestTransfers(balances, { mode: 'minimal' }));
+  });
+
+  it('breaks ties by name', () => {
+    const tied = { Zed: -1000, Amy: -1000, Kim: 2000 };
+    const expected = [
+      { from: 'Amy', to: 'Kim', amount: 1000 },
+      { from: 'Zed', to: 'Kim', amount: 1000 },
+    ];
+    expect(suggestTransfers(tied)).toEqual(expected);
+    expect(suggestTransfers({ Kim: 2000, Amy: -1000, Zed: -1000 })).toEqual(expected);
+  });
+
+  it('ignores balances below a won', () => {
+    expect(suggestTransfers({ A: -0.4, B: 0.4 })).toEqual([]);
+  });
+});
+
+describe('rounding', () => {
+  const pair = { A: -1234.4, B: 1234.4 };
+
+  it('none rounds to whole won', () => {
+    expect(suggestTransfers(pair, { rounding: 'none' })).toEqual([{ from: 'A', to: 'B', amount: 1234 }]);
+  });
+
+  it('krw100 rounds and keeps the exact amount', () => {
+    expect(suggestTransfers(pair, { rounding: 'krw100' })).toEqual([{ from: 'A', to: 'B', amount: 1200, exact: 1234.4 }]);
+  });
+
+  it('krw1000 keeps the residual visible instead of dropping it', () => {
+    const [transfer] = suggestTransfers(pair, { rounding: 'krw1000' });
+    expect(transfer.amount).toBe(1000);
+    expect(transfer.exact).toBe(1234.4);
+    expect(transfer.exact! - transfer.amount).toBeCloseTo(234.4);
+  });
+
+  it('does not round a debt smaller than one unit away', () => {
+    expect(suggestTransfers({ A: -400, B: 400 }, { rounding: 'krw1000' })).toEqual([{ from: 'A', to: 'B', amount: 400 }]);
+  });
+
+  it('twd rounds to whole TWD at the current rate', () => {
+    const rates = { TWD: 0.025 };  // 40 KRW per TWD
+    const [transfer] = suggestTransfers(pair, { rounding: 'twd', rates });
+    expect(transfer.amount * rates.TWD).toBeCloseTo(31);
+    expect(transfer.exact).toBe(1234.4);
+  });
+
+  it('roundTransfer falls back to whole won without a TWD rate', () => {
+    expect(roundTransfer(1234.4, 'twd')).toBe(1234);
+    expect(roundTransfer(1250, 'krw100')).toBe(1300);
+    expect(roundTransfer(1499, 'krw1000')).toBe(1000);
+  });
+});
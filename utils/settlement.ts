@@ -0,0 +1,225 @@
+import { ExpenseItem, SettlementPayment } from '../types';
+import { getExpenseShares, getExpensePayments } from './splits';
+import { RateTable, toBase } from './currency';
+
+// ============================================================================
+// SETTLEMENT ENGINE
+//
+// Pure functions from expenses and recorded repayments to balances and the
+// transfers that clear them. Everything is in KRW. Ties are broken by name,
+// never by list order, so every phone suggests the same transfers.
+// ============================================================================
+
+// Balances closer to zero than this are floating-point noise, not debts
+export const SETTLED_THRESHOLD_KRW = 1;
+
+// Subset search for fewest transfers is exponential; bigger groups fall back to greedy matching
+const MAX_MINIMAL_PEOPLE = 14;
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;  // KRW, rounded as the options ask
+  exact?: number;  // KRW before rounding, set when rounding moved the amount by a won or more
+}
+
+export interface Balances {
+  // Everyone with money involved, active or not (removed passengers can still owe)
+  participants: string[];
+  // Positive: is owed money. Negative: owes money.
+  balances: Record<string, number>;
+  // What each person paid for expenses (private ones included)
+  paidTotals: Record<string, number>;
+}
+
+// 'greedy' pays the largest debts to the largest credits first.
+// 'minimal' first splits people into the most groups whose balances cancel out, which gives the fewest transfers.
+export type SettlementMode = 'greedy' | 'minimal';
+
+// How each transfer amount is rounded: not at all, to 100 or 1,000 KRW, or to whole TWD
+export type SettlementRounding = 'none' | 'krw100' | 'krw1000' | 'twd';
+
+export interface SettlementOptions {
+  mode?: SettlementMode;
+  rounding?: SettlementRounding;
+  rates?: RateTable;  // Needed for TWD rounding
+}
+
+export const SETTLEMENT_MODES: { id: SettlementMode; label: string }[] = [
+  { id: 'greedy', label: 'LARGEST FIRST' },
+  { id: 'minimal', label: 'FEWEST' },
+];
+
+export const SETTLEMENT_ROUNDINGS: { id: SettlementRounding; label: string }[] = [
+  { id: 'none', label: 'EXACT' },
+  { id: 'krw100', label: '₩100' },
+  { id: 'krw1000', label: '₩1,000' },
+  { id: 'twd', label: 'NT$1' },
+];
+
+export const getPaymentKRW = (payment: Pick<SettlementPayment, 'amount' | 'rateToBase'>): number =>
+  payment.amount * (payment.rateToBase ?? 1);
+
+const byName = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const computeBalances = (expenses: ExpenseItem[], payments: SettlementPayment[], tripUsers: string[]): Balances => {
+  // Collect ALL users involved in expenses, not just current tripUsers.
+  // This ensures that if a user was removed but still has debts/credits, they appear in the math.
+  const participants = new Set<string>(tripUsers);
+  expenses.forEach(e => {
+    if (e.payer) participants.add(e.payer);
+    Object.keys(e.payers || {}).forEach(u => participants.add(u));
+    (e.splitBy || []).forEach(u => participants.add(u));
+  });
+  payments.forEach(p => {
+    participants.add(p.from);
+    participants.add(p.to);
+  });
+
+  const balances: Record<string, number> = {};
+  const paidTotals: Record<string, number> = {};
+  participants.forEach(u => {
+    balances[u] = 0;
+    paidTotals[u] = 0;
+  });
+
+  expenses.forEach(item => {
+    // Legacy records without splitBy fall back to isShared (everyone currently on the trip) or the payer alone
+    const beneficiaries = item.splitBy && item.splitBy.length > 0
+      ? item.splitBy
+      : (item.isShared ? tripUsers : [item.payer]);
+
+    // What each payer put in (one payer, or several with their own amounts)
+    const paid = getExpensePayments(item);
+    const payerNames = Object.keys(paid);
+    payerNames.forEach(p => { paidTotals[p] += toBase(item, paid[p]); });
+
+    // Purely private items (paid by the one person who consumed them) net to zero; skip them
+    if (beneficiaries.length === 1 && payerNames.length === 1 && beneficiaries[0] === payerNames[0]) return;
+
+    // Payers are credited with what they paid; beneficiaries debited with their share (split mode honored)
+    const shares = getExpenseShares({ ...item, splitBy: beneficiaries });
+    payerNames.forEach(p => { balances[p] += toBase(item, paid[p]); });
+    beneficiaries.forEach(b => {
+      if (balances[b] !== undefined) balances[b] -= toBase(item, shares[b] || 0);
+    });
+  });
+
+  // Repayments already made: the payer owes that much less, the receiver is owed that much less
+  payments.forEach(p => {
+    balances[p.from] += getPaymentKRW(p);
+    balances[p.to] -= getPaymentKRW(p);
+  });
+
+  return { participants: Array.from(participants), balances, paidTotals };
+};
+
+// Largest debt to largest credit until one side runs out. At most n - 1 transfers.
+const matchGreedy = (people: { name: string; balance: number }[]): Transfer[] => {
+  const debtors = people.filter(p => p.balance < -SETTLED_THRESHOLD_KRW)
+    .map(p => ({ ...p }))
+    .sort((a, b) => a.balance - b.balance || byName(a.name, b.name));
+  const creditors = people.filter(p => p.balance > SETTLED_THRESHOLD_KRW)
+    .map(p => ({ ...p }))
+    .sort((a, b) => b.balance - a.balance || byName(a.name, b.name));
+
+  const transfers: Transfer[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < debtors.length && j < creditors.length) {
+    const amount = Math.min(-debtors[i].balance, creditors[j].balance);
+    if (amount > SETTLED_THRESHOLD_KRW) transfers.push({ from: debtors[i].name, to: creditors[j].name, amount });
+    debtors[i].balance += amount;
+    creditors[j].balance -= amount;
+    if (debtors[i].balance > -SETTLED_THRESHOLD_KRW) i++;
+    if (creditors[j].balance < SETTLED_THRESHOLD_KRW) j++;
+  }
+  return transfers;
+};
+
+// Split people into as many groups as possible whose balances sum to zero; each group of k then
+// needs k - 1 transfers, so more groups means fewer transfers overall.
+// Balances are compared in whole KRW so "sums to zero" is exact.
+const splitIntoZeroSumGroups = (people: { name: string; balance: number }[]): { name: string; balance: number }[][] => {
+  const n = people.length;
+  const values = people.map(p => Math.round(p.balance));
+  // Rounding can leave the total a few won off zero; the largest balance absorbs it
+  const drift = values.reduce((a, b) => a + b, 0);
+  if (drift !== 0) {
+    const largest = values.reduce((best, v, idx) => Math.abs(v) > Math.abs(values[best]) ? idx : best, 0);
+    values[largest] -= drift;
+  }
+
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  // groups[mask]: most zero-sum groups the people in mask can be split into (when mask itself sums to zero)
+  const groups = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + values[31 - Math.clz32(low)];
+    let best = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from everyone, always removing the lowest-index person that keeps the optimum (deterministic)
+  const result: { name: string; balance: number }[][] = [];
+  let current: { name: string; balance: number }[] = [];
+  let mask = full;
+  while (mask) {
+    const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+    if (sums[mask] === 0 && current.length > 0) {
+      result.push(current);
+      current = [];
+    }
+    for (let i = 0; i < n; i++) {
+      if ((mask & (1 << i)) && groups[mask ^ (1 << i)] === target) {
+        current.push(people[i]);
+        mask ^= 1 << i;
+        break;
+      }
+    }
+  }
+  if (current.length > 0) result.push(current);
+  return result;
+};
+
+const matchMinimal = (people: { name: string; balance: number }[]): Transfer[] => {
+  const open = people.filter(p => Math.abs(p.balance) > SETTLED_THRESHOLD_KRW);
+  if (open.length > MAX_MINIMAL_PEOPLE) return matchGreedy(open);
+  return splitIntoZeroSumGroups(open).flatMap(matchGreedy);
+};
+
+// Round a KRW transfer to the chosen unit (0 if it rounds away)
+export const roundTransfer = (amount: number, rounding: SettlementRounding = 'none', rates?: RateTable): number => {
+  switch (rounding) {
+    case 'krw100': return Math.round(amount / 100) * 100;
+    case 'krw1000': return Math.round(amount / 1000) * 1000;
+    case 'twd': {
+      const twdPerKrw = rates?.TWD;
+      return twdPerKrw && twdPerKrw > 0 ? Math.round(amount * twdPerKrw) / twdPerKrw : Math.round(amount);
+    }
+    default: return Math.round(amount);
+  }
+};
+
+// The transfers that clear every balance, largest first (then by name).
+// Rounding may leave each pair up to half a unit apart; the unrounded amount is kept in `exact`
+// so the difference can be shown. A debt smaller than one unit is not rounded away but paid exactly.
+export const suggestTransfers = (balances: Record<string, number>, options: SettlementOptions = {}): Transfer[] => {
+  const people = Object.keys(balances)
+    .sort(byName)
+    .map(name => ({ name, balance: balances[name] }));
+  const matched = options.mode === 'minimal' ? matchMinimal(people) : matchGreedy(people);
+
+  return matched
+    .map(t => {
+      const rounded = roundTransfer(t.amount, options.rounding, options.rates);
+      const amount = rounded > 0 ? rounded : Math.round(t.amount);
+      return Math.abs(amount - t.amount) >= SETTLED_THRESHOLD_KRW ? { ...t, amount, exact: t.amount } : { ...t, amount };
+    })
+    .filter(t => t.amount > 0)
+    .sort((a, b) => b.amount - a.amount || byName(a.from, b.from) || byName(a.to, b.to));
+};
@@ -0,0 +1,181 @@
+import { MemberProfile, Trip } from '../types';
+import { SpendingAnalytics } from './analytics';
+import { Transfer } from './settlement';
+import { formatTransferInstructions } from './members';
+import { RateTable, convertFromBase, formatMoney } from './currency';
+
+// What the "Share summary" action sends: the same figures as the Settle tab, already formatted
+export interface SettlementSummary {
+  title: string;
+  dates: string;
+  total: string;
+  people: { name: string; paid: string; consumed: string }[];
+  // One block per transfer: "A → B: amount", then the receiver's payment details
+  transfers: string[][];
+}
+
+export const buildSettlementSummary = (
+  trip: Pick<Trip, 'name' | 'startDate' | 'endDate'>,
+  analytics: SpendingAnalytics,
+  transfers: Transfer[],
+  profiles: Record<string, MemberProfile>,
+  rates: RateTable,
+  currency: string
+): SettlementSummary => {
+  const money = (amountKRW: number) => formatMoney(convertFromBase(amountKRW, currency, rates), currency);
+  return {
+    title: trip.name,
+    dates: `${trip.startDate} ~ ${trip.endDate}`,
+    total: money(analytics.total),
+    people: analytics.byPerson
+      .filter(p => p.paid > 0 || p.consumed > 0)
+      .map(p => ({ name: p.name, paid: money(p.paid), consumed: money(p.consumed) })),
+    transfers: transfers.map(t => formatTransferInstructions(t, profiles, rates, currency).split('\n')),
+  };
+};
+
+// Chat-friendly version of the receipt
+export const settlementSummaryToText = (summary: SettlementSummary): string => [
+  `🧾 ${summary.title} (${summary.dates})`,
+  `Total spend: ${summary.total}`,
+  '',
+  'PAID / CONSUMED',
+  ...summary.people.map(p => `• ${p.name}: ${p.paid} / ${p.consumed}`),
+  '',
+  'TO SETTLE',
+  ...(summary.transfers.length === 0
+    ? ['All settled! 🎉']
+    : summary.transfers.flatMap(([line, ...details]) => [`• ${line}`, ...details.map(d => `   ${d}`)])),
+].join('\n');
+
+// Receipt layout, in canvas pixels
+const WIDTH = 1080;
+const PADDING = 80;
+const TOOTH = 24;  // Zigzag tear at the top and bottom edge
+const MONO = '"Courier New", monospace';
+const PIXEL = '"Press Start 2P", cursive';
+
+type ReceiptLine =
+  | { kind: 'title' | 'center' | 'note'; text: string }
+  | { kind: 'row' | 'bold'; left: string; right: string }
+  | { kind: 'divider' | 'gap' };
+
+const LINE_HEIGHT: Record<ReceiptLine['kind'], number> = { title: 90, center: 52, note: 40, row: 52, bold: 64, divider: 48, gap: 24 };
+
+// Cut text down to fit the receipt width
+const fit = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && ctx.measureText(`${cut}…`).width > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}…`;
+};
+
+// Draw the summary as a till receipt (PNG), in the spirit of the polaroid export in LibraryView
+export const renderSettlementReceipt = async (summary: SettlementSummary): Promise<Blob> => {
+  // The pixel font comes from Google Fonts; wait for it so the title doesn't fall back
+  try {
+    await document.fonts?.load(`40px ${PIXEL}`);
+  } catch (e) {
+    console.warn("Receipt font not loaded", e);
+  }
+
+  const lines: ReceiptLine[] = [
+    { kind: 'title', text: 'SETTLEMENT' },
+    { kind: 'center', text: summary.title },
+    { kind: 'note', text: summary.dates },
+    { kind: 'divider' },
+    { kind: 'bold', left: 'TOTAL', right: summary.total },
+    { kind: 'divider' },
+    { kind: 'note', text: 'PAID / CONSUMED' },
+    ...summary.people.map(p => ({ kind: 'row' as const, left: p.name, right: `${p.paid} / ${p.consumed}` })),
+    { kind: 'divider' },
+    { kind: 'note', text: 'TO SETTLE' },
+    ...(summary.transfers.length === 0
+      ? [{ kind: 'center' as const, text: 'ALL SETTLED!' }]
+      : summary.transfers.flatMap(([line, ...details]) => [
+          { kind: 'bold' as const, left: line, right: '' },
+          ...details.map(text => ({ kind: 'row' as const, left: `  ${text}`, right: '' })),
+          { kind: 'gap' as const },
+        ])),
+    { kind: 'divider' },
+    { kind: 'note', text: `Printed ${new Date().toLocaleString()}` },
+  ];
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  canvas.width = WIDTH;
+  canvas.height = TOOTH + PADDING + lines.reduce((sum, line) => sum + LINE_HEIGHT[line.kind], 0) + PADDING + TOOTH;
+
+  // 1. Paper with torn (zigzag) top and bottom edges
+  ctx.fillStyle = '#E3D5CA';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#FEFAE0';
+  ctx.beginPath();
+  ctx.moveTo(0, TOOTH);
+  for (let x = 0; x < WIDTH; x += TOOTH * 2) {
+    ctx.lineTo(x + TOOTH, 0);
+    ctx.lineTo(x + TOOTH * 2, TOOTH);
+  }
+  ctx.lineTo(WIDTH, canvas.height - TOOTH);
+  for (let x = WIDTH; x > 0; x -= TOOTH * 2) {
+    ctx.lineTo(x - TOOTH, canvas.height);
+    ctx.lineTo(x - TOOTH * 2, canvas.height - TOOTH);
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  // 2. Lines, top to bottom
+  const innerWidth = WIDTH - PADDING * 2;
+  let y = TOOTH + PADDING;
+  ctx.textBaseline = 'middle';
+  lines.forEach(line => {
+    const height = LINE_HEIGHT[line.kind];
+    const middle = y + height / 2;
+    ctx.fillStyle = '#2a1d1a';
+    switch (line.kind) {
+      case 'title':
+        ctx.textAlign = 'center';
+        ctx.font = `48px ${PIXEL}`;
+        ctx.fillText(line.text, WIDTH / 2, middle);
+        break;
+      case 'center':
+        ctx.textAlign = 'center';
+        ctx.font = `bold 36px ${MONO}`;
+        ctx.fillText(fit(ctx, line.text, innerWidth), WIDTH / 2, middle);
+        break;
+      case 'note':
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#888888';
+        ctx.font = `26px ${MONO}`;
+        ctx.fillText(fit(ctx, line.text, innerWidth), WIDTH / 2, middle);
+        break;
+      case 'row':
+      case 'bold': {
+        ctx.font = line.kind === 'bold' ? `bold 34px ${MONO}` : `30px ${MONO}`;
+        ctx.textAlign = 'right';
+        ctx.fillText(line.right, WIDTH - PADDING, middle);
+        const rightWidth = line.right ? ctx.measureText(line.right).width + 24 : 0;
+        ctx.textAlign = 'left';
+        ctx.fillText(fit(ctx, line.left, innerWidth - rightWidth), PADDING, middle);
+        break;
+      }
+      case 'divider':
+        ctx.strokeStyle = '#2a1d1a';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([12, 10]);
+        ctx.beginPath();
+        ctx.moveTo(PADDING, middle);
+        ctx.lineTo(WIDTH - PADDING, middle);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        break;
+    }
+    y += height;
+  });
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render receipt'))), 'image/png')
+  );
+};
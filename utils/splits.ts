@@ -0,0 +1,140 @@
+import { ExpenseItem, ExpenseLineItem, SplitMode } from '../types';
+import { BASE_CURRENCY, formatMoney } from './currency';
+
+export const SPLIT_MODES: { id: SplitMode; label: string }[] = [
+  { id: 'equal', label: 'EQUAL' },
+  { id: 'shares', label: 'SHARES' },
+  { id: 'percent', label: '%' },
+  { id: 'exact', label: 'EXACT' },
+  { id: 'itemized', label: 'ITEMS' },
+];
+
+// Amounts within this many units (or percentage points) are treated as matching
+const TOLERANCE = 0.01;
+
+type ShareFields = Pick<ExpenseItem, 'cost' | 'splitBy' | 'splitMode' | 'splitWeights' | 'lineItems' | 'tax' | 'serviceCharge' | 'extrasAllocation'>;
+
+// How much of an expense each person owes, in the expense's currency (itemized: everyone on its lines).
+// Always sums to the cost: weights are normalised, so bad data degrades to a proportional split.
+export const getExpenseShares = (item: ShareFields): Record<string, number> => {
+  const mode = item.splitMode || 'equal';
+  if (mode === 'itemized' && item.lineItems && item.lineItems.length > 0) {
+    const shares = getItemizedShares(item);
+    if (Object.keys(shares).length > 0) return shares;
+  }
+
+  const shares: Record<string, number> = {};
+  const people = item.splitBy || [];
+  if (people.length === 0) return shares;
+
+  const weights = people.map(name => Math.max(0, item.splitWeights?.[name] ?? 0));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+  if (mode === 'equal' || totalWeight <= 0) {
+    people.forEach(name => { shares[name] = item.cost / people.length; });
+    return shares;
+  }
+
+  people.forEach((name, i) => { shares[name] = item.cost * weights[i] / totalWeight; });
+  return shares;
+};
+
+// Everyone on any line, in first-seen order (the splitBy of an itemized expense)
+export const getLineParticipants = (lines: ExpenseLineItem[]): string[] =>
+  Array.from(new Set(lines.flatMap(line => line.splitBy)));
+
+// Each line split equally among its people, then tax and service shared on top.
+// Scaled to the expense cost so the shares still sum to it if the lines were entered inexactly.
+const getItemizedShares = (item: ShareFields): Record<string, number> => {
+  const subtotals: Record<string, number> = {};
+  (item.lineItems || []).forEach(line => {
+    if (line.splitBy.length === 0) return;
+    line.splitBy.forEach(name => {
+      subtotals[name] = (subtotals[name] || 0) + line.cost / line.splitBy.length;
+    });
+  });
+
+  const people = Object.keys(subtotals);
+  const linesTotal = people.reduce((sum, name) => sum + subtotals[name], 0);
+  const extras = (item.tax || 0) + (item.serviceCharge || 0);
+  const shares: Record<string, number> = {};
+  people.forEach(name => {
+    const extraShare = item.extrasAllocation === 'equal' || linesTotal <= 0
+      ? extras / people.length
+      : extras * subtotals[name] / linesTotal;
+    shares[name] = subtotals[name] + extraShare;
+  });
+
+  const total = linesTotal + extras;
+  if (total > 0 && Math.abs(total - item.cost) > TOLERANCE) {
+    people.forEach(name => { shares[name] = shares[name] * item.cost / total; });
+  }
+  return shares;
+};
+
+// User-facing problem with an itemized breakdown, or null if it can be saved
+export const validateLineItems = (
+  cost: number,
+  lines: ExpenseLineItem[],
+  extras: number,
+  currency: string = BASE_CURRENCY
+): string | null => {
+  if (lines.length === 0) return 'Add at least one line.';
+  if (lines.some(line => isNaN(line.cost) || line.cost < 0)) return 'Every line needs an amount.';
+  const unassigned = lines.find(line => line.splitBy.length === 0);
+  if (unassigned) return `Pick who shared "${unassigned.name || 'a line'}".`;
+  if (isNaN(extras) || extras < 0) return 'Tax and service cannot be negative.';
+  const sum = lines.reduce((total, line) => total + line.cost, 0) + extras;
+  if (Math.abs(sum - cost) > TOLERANCE) return `Lines, tax and service add up to ${formatMoney(sum, currency)}, not ${formatMoney(cost, currency)}.`;
+  return null;
+};
+
+// How much each payer put in, in the expense's currency. A single payer covers the whole cost.
+export const getExpensePayments = (item: Pick<ExpenseItem, 'cost' | 'payer' | 'payers'>): Record<string, number> => {
+  const entries = Object.entries(item.payers || {}).filter(([, amount]) => amount > 0);
+  if (entries.length === 0) return { [item.payer]: item.cost };
+  return Object.fromEntries(entries);
+};
+
+// User-facing problem with a multi-payer breakdown, or null if it can be saved
+export const validatePayers = (cost: number, payments: Record<string, number>, currency: string = BASE_CURRENCY): string | null => {
+  const amounts = Object.values(payments);
+  if (amounts.some(v => isNaN(v) || v < 0)) return 'Paid amounts cannot be negative.';
+  if (!amounts.some(v => v > 0)) return 'Enter how much at least one person paid.';
+  const sum = amounts.reduce((a, b) => a + b, 0);
+  if (Math.abs(sum - cost) > TOLERANCE) return `Payments add up to ${formatMoney(sum, currency)}, not ${formatMoney(cost, currency)}.`;
+  return null;
+};
+
+// User-facing problem with a split, or null if it can be saved
+export const validateSplit = (
+  mode: SplitMode,
+  cost: number,
+  splitBy: string[],
+  weights: Record<string, number>,
+  currency: string = BASE_CURRENCY
+): string | null => {
+  if (splitBy.length === 0) return 'Please select at least one person to split the bill.';
+  // Itemized splits are checked line by line (validateLineItems)
+  if (mode === 'equal' || mode === 'itemized') return null;
+
+  const values = splitBy.map(name => weights[name]);
+  if (values.some(v => v === undefined || isNaN(v) || v < 0)) return 'Enter a value for everyone in the split.';
+  const sum = values.reduce((a, b) => a + b, 0);
+
+  if (mode === 'shares' && sum <= 0) return 'At least one person needs a share.';
+  if (mode === 'percent' && Math.abs(sum - 100) > TOLERANCE) return `Percentages add up to ${formatNumber(sum)}%, not 100%.`;
+  if (mode === 'exact' && Math.abs(sum - cost) > TOLERANCE) {
+    return `Amounts add up to ${formatMoney(sum, currency)}, not ${formatMoney(cost, currency)}.`;
+  }
+  return null;
+};
+
+// What is left to assign in the percent/exact modes (shown next to the inputs)
+export const getSplitRemainder = (mode: SplitMode, cost: number, splitBy: string[], weights: Record<string, number>): number | null => {
+  if (mode !== 'percent' && mode !== 'exact') return null;
+  const sum = splitBy.reduce((total, name) => total + (weights[name] || 0), 0);
+  return (mode === 'percent' ? 100 : cost) - sum;
+};
+
+const formatNumber = (n: number) => (Math.round(n * 100) / 100).toLocaleString();
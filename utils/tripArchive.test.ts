@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DEFAULT_TRIP, ExpenseItem } from '../types';
+import { createMemoryTripStore } from '../services/tripStore';
+import { buildTripArchive, readTripArchive, importTripArchive } from './tripArchive';
+
+// Receipt images on the exporting device: r1 is there, r2 was taken on another phone
+const RECEIPT_IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+vi.mock('./db', async importOriginal => ({
+  ...(await importOriginal<typeof import('./db')>()),
+  getReceiptImage: async (receipt: string) => receipt === 'local:r1' ? RECEIPT_IMAGE : receipt.startsWith('local:') ? null : receipt,
+}));
+
+const expense = (id: string, receipt?: string): ExpenseItem => ({
+  id,
+  name: `Expense ${id}`,
+  cost: 1000,
+  payer: 'Me',
+  splitBy: ['Me'],
+  ...(receipt ? { receipt } : {}),
+});
+
+const snapshot = {
+  trip: DEFAULT_TRIP,
+  users: ['Me'],
+  itinerary: [],
+  expenses: [expense('1', 'local:r1'), expense('2', 'local:r2'), expense('3', 'https://storage.example/r3.jpg'), expense('4')],
+  settlements: [],
+  photos: [],
+};
+
+describe('trip archive receipts', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs up local receipt images and counts the ones not on this device', async () => {
+    const { blob, missingReceipts } = await buildTripArchive(snapshot);
+    expect(missingReceipts).toBe(1);
+    const archive = await readTripArchive(blob);
+    expect(archive.manifest.receipts).toEqual([
+      { ref: 'local:r1', file: 'receipts/r1', type: 'image/png' },
+      { ref: 'local:r2', file: null },
+    ]);
+    expect(archive.receiptData).toEqual({ 'local:r1': RECEIPT_IMAGE });
+  });
+
+  it('restores receipts on another device instead of leaving broken references', async () => {
+    const archive = await readTripArchive((await buildTripArchive(snapshot)).blob);
+    const store = createMemoryTripStore('restored', { users: [] });
+    const report = await importTripArchive(archive, store, { ...snapshot, trip: { ...DEFAULT_TRIP, id: 'restored' }, users: [], expenses: [] }, true);
+
+    let restored: ExpenseItem[] = [];
+    store.subscribeExpenses(items => { restored = items; });
+    const receiptOf = (id: string) => restored.find(e => e.id === id)?.receipt;
+    // The memory store keeps the image itself as the reference
+    expect(receiptOf('1')).toBe(RECEIPT_IMAGE);
+    expect(restored.find(e => e.id === '2')).not.toHaveProperty('receipt');
+    expect(receiptOf('3')).toBe('https://storage.example/r3.jpg');
+    expect(receiptOf('4')).toBeUndefined();
+    expect(report).toMatchObject({ expenses: 4, receipts: 1 });
+  });
+});
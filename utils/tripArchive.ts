@@ -0,0 +1,336 @@
+import JSZip from 'jszip';
+import { Trip, ItineraryItem, ExpenseItem, SettlementPayment, Photo, WeatherInfo } from '../types';
+import { TripStore } from '../services/tripStore';
+import { tripStorageKey, TRIP_EXTRA_KEYS, getTripRangeError } from './trips';
+import { LOCAL_RECEIPT_PREFIX, getReceiptImage } from './db';
+import { SCHEMA_VERSION, upgradeExpenses, upgradeItinerary } from './migrations';
+
+// Bump when the manifest shape changes; readers refuse archives newer than they understand
+export const ARCHIVE_FORMAT = 'seoul-trip-archive';
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface TripExtras {
+  flight?: unknown;
+  hotel?: unknown;
+  weather?: WeatherInfo[];
+}
+
+export interface ArchivedPhoto extends Omit<Photo, 'url'> {
+  file: string | null; // path inside the zip, null if the image could not be fetched
+}
+
+// A receipt image kept on the exporting device ("local:<id>"), so it can be restored elsewhere
+export interface ArchivedReceipt {
+  ref: string;
+  file: string | null; // path inside the zip, null if the image was not on this device
+  type?: string;       // MIME type of the image
+}
+
+export interface TripArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schemaVersion?: number; // Record schema (utils/migrations); absent in archives made before migrations existed
+  exportedAt: string;
+  exportedBy?: string;
+  trip: Trip;
+  users: string[];
+  itinerary: ItineraryItem[];
+  expenses: ExpenseItem[];
+  settlements?: SettlementPayment[]; // Absent in archives made before payments were recorded
+  extras: TripExtras;
+  photos: ArchivedPhoto[];
+  receipts?: ArchivedReceipt[]; // Absent in archives made before receipts were backed up
+}
+
+export interface TripArchive {
+  manifest: TripArchiveManifest;
+  photoData: Record<string, string>; // photo id -> data URL
+  receiptData: Record<string, string>; // local receipt reference -> data URL
+}
+
+export interface TripSnapshotForArchive {
+  trip: Trip;
+  users: string[];
+  itinerary: ItineraryItem[];
+  expenses: ExpenseItem[];
+  settlements: SettlementPayment[];
+  photos: Photo[];
+}
+
+export interface ArchiveConflict {
+  kind: 'itinerary' | 'expense' | 'photo' | 'flight' | 'hotel';
+  id: string;
+  label: string;
+}
+
+export interface ImportReport {
+  itinerary: number;
+  expenses: number;
+  settlements: number;
+  photos: number;
+  receipts: number;
+  users: number;
+  skipped: number; // conflicts where the existing record was kept
+}
+
+const readExtra = (base: string, tripId: string): unknown => {
+  try {
+    const saved = localStorage.getItem(tripStorageKey(base, tripId));
+    return saved ? JSON.parse(saved) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const readTripExtras = (tripId: string): TripExtras => ({
+  flight: readExtra(TRIP_EXTRA_KEYS.flight, tripId),
+  hotel: readExtra(TRIP_EXTRA_KEYS.hotel, tripId),
+  weather: readExtra(TRIP_EXTRA_KEYS.weather, tripId) as WeatherInfo[] | undefined,
+});
+
+const writeTripExtras = (tripId: string, extras: TripExtras) => {
+  (Object.keys(TRIP_EXTRA_KEYS) as (keyof TripExtras)[]).forEach(key => {
+    if (extras[key] !== undefined) {
+      localStorage.setItem(tripStorageKey(TRIP_EXTRA_KEYS[key], tripId), JSON.stringify(extras[key]));
+    }
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Bundle a trip into a zip: manifest.json plus one JPEG per photo and one image per local receipt.
+// Cloud photos are downloaded; any that fail (e.g. CORS) are listed with file: null.
+// Cloud receipts stay as their URLs; local ones missing from this device are listed with file: null.
+export const buildTripArchive = async (
+  snapshot: TripSnapshotForArchive,
+  exportedBy?: string
+): Promise<{ blob: Blob; missingPhotos: number; missingReceipts: number }> => {
+  const zip = new JSZip();
+  const archivedPhotos: ArchivedPhoto[] = [];
+  const archivedReceipts: ArchivedReceipt[] = [];
+  let missingPhotos = 0;
+  let missingReceipts = 0;
+
+  for (const photo of snapshot.photos) {
+    const { url, ...meta } = photo;
+    const file = `photos/${photo.id}.jpg`;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      zip.file(file, await response.blob());
+      archivedPhotos.push({ ...meta, file });
+    } catch (e) {
+      console.warn(`Photo ${photo.id} could not be archived`, e);
+      archivedPhotos.push({ ...meta, file: null });
+      missingPhotos++;
+    }
+  }
+
+  const localReceipts = new Set(snapshot.expenses.map(e => e.receipt).filter((r): r is string => !!r && r.startsWith(LOCAL_RECEIPT_PREFIX)));
+  for (const ref of localReceipts) {
+    const file = `receipts/${ref.slice(LOCAL_RECEIPT_PREFIX.length)}`;
+    try {
+      const match = (await getReceiptImage(ref))?.match(/^data:(.+?);base64,(.*)$/);
+      if (!match) throw new Error('Not on this device');
+      zip.file(file, match[2], { base64: true });
+      archivedReceipts.push({ ref, file, type: match[1] });
+    } catch (e) {
+      console.warn(`Receipt ${ref} could not be archived`, e);
+      archivedReceipts.push({ ref, file: null });
+      missingReceipts++;
+    }
+  }
+
+  const manifest: TripArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    trip: { ...snapshot.trip, members: snapshot.users },
+    users: snapshot.users,
+    itinerary: snapshot.itinerary,
+    expenses: snapshot.expenses,
+    settlements: snapshot.settlements,
+    extras: readTripExtras(snapshot.trip.id),
+    photos: archivedPhotos,
+    receipts: archivedReceipts,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return { blob, missingPhotos, missingReceipts };
+};
+
+// Open and validate an archive. Throws an Error with a user-facing message if it can't be used.
+export const readTripArchive = async (file: Blob): Promise<TripArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a trip backup (.zip).');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error('Backup is missing its manifest.json.');
+
+  let manifest: TripArchiveManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error('Backup manifest is corrupted.');
+  }
+
+  if (manifest.format !== ARCHIVE_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('This zip is not a trip backup.');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`This backup was made by a newer app version (v${manifest.version}). Please update the app first.`);
+  }
+  if (!manifest.trip || !Array.isArray(manifest.itinerary) || !Array.isArray(manifest.expenses)) {
+    throw new Error('Backup manifest is incomplete.');
+  }
+  const rangeError = getTripRangeError(manifest.trip);
+  if (rangeError) throw new Error(`Backup has invalid trip dates. ${rangeError}`);
+  const schemaVersion = manifest.schemaVersion ?? 0;
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer app version. Please update the app first.');
+  }
+
+  // Bring records from older backups up to the current schema before they are compared or imported
+  const ctx = { users: Array.isArray(manifest.users) && manifest.users.length > 0 ? manifest.users : manifest.trip.members };
+  manifest.itinerary = upgradeItinerary(manifest.itinerary, schemaVersion, ctx);
+  manifest.expenses = upgradeExpenses(manifest.expenses, schemaVersion, ctx);
+  manifest.schemaVersion = SCHEMA_VERSION;
+
+  const photoData: Record<string, string> = {};
+  for (const photo of manifest.photos || []) {
+    const entry = photo.file ? zip.file(photo.file) : null;
+    if (entry) {
+      photoData[photo.id] = await blobToDataUrl(new Blob([await entry.async('arraybuffer')], { type: 'image/jpeg' }));
+    }
+  }
+
+  const receiptData: Record<string, string> = {};
+  for (const receipt of manifest.receipts || []) {
+    const entry = receipt.file ? zip.file(receipt.file) : null;
+    if (entry) receiptData[receipt.ref] = `data:${receipt.type || 'image/jpeg'};base64,${await entry.async('base64')}`;
+  }
+
+  return { manifest, photoData, receiptData };
+};
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Records present on both sides with the same id but different content
+export const findArchiveConflicts = (archive: TripArchive, current: TripSnapshotForArchive): ArchiveConflict[] => {
+  const { manifest } = archive;
+  const conflicts: ArchiveConflict[] = [];
+
+  manifest.itinerary.forEach(item => {
+    const existing = current.itinerary.find(i => i.id === item.id);
+    if (existing && !sameRecord(existing, item)) conflicts.push({ kind: 'itinerary', id: item.id, label: item.title });
+  });
+  manifest.expenses.forEach(item => {
+    const existing = current.expenses.find(e => e.id === item.id);
+    if (existing && !sameRecord(existing, item)) conflicts.push({ kind: 'expense', id: item.id, label: item.name });
+  });
+  manifest.photos.forEach(photo => {
+    if (current.photos.some(p => p.id === photo.id)) conflicts.push({ kind: 'photo', id: photo.id, label: photo.date });
+  });
+
+  const currentExtras = readTripExtras(current.trip.id);
+  (['flight', 'hotel'] as const).forEach(kind => {
+    const incoming = manifest.extras?.[kind];
+    if (incoming !== undefined && currentExtras[kind] !== undefined && !sameRecord(incoming, currentExtras[kind])) {
+      conflicts.push({ kind, id: kind, label: kind === 'flight' ? 'Flight info' : 'Hotel info' });
+    }
+  });
+
+  return conflicts;
+};
+
+// Push an archive into a trip store. Conflicting records are replaced only when overwrite is set.
+export const importTripArchive = async (
+  archive: TripArchive,
+  store: TripStore,
+  current: TripSnapshotForArchive,
+  overwrite: boolean
+): Promise<ImportReport> => {
+  const { manifest, photoData, receiptData } = archive;
+  const conflicts = findArchiveConflicts(archive, current);
+  const isConflict = (kind: ArchiveConflict['kind'], id: string) => conflicts.some(c => c.kind === kind && c.id === id);
+  const report: ImportReport = { itinerary: 0, expenses: 0, settlements: 0, photos: 0, receipts: 0, users: 0, skipped: 0 };
+
+  // A local receipt only exists on the device that made the backup: save its image into this
+  // store, or drop the reference if the backup has no image for it
+  const restoreReceipt = async (item: ExpenseItem): Promise<ExpenseItem> => {
+    if (!item.receipt?.startsWith(LOCAL_RECEIPT_PREFIX)) return item;
+    const { receipt, ...rest } = item;
+    const dataUrl = (receiptData || {})[receipt];
+    if (!dataUrl) return rest;
+    report.receipts++;
+    return { ...rest, receipt: await store.saveReceipt(receipt.slice(LOCAL_RECEIPT_PREFIX.length), dataUrl) };
+  };
+
+  for (const name of manifest.users || []) {
+    if (!current.users.includes(name)) {
+      await store.addUser(name);
+      report.users++;
+    }
+  }
+
+  for (const item of manifest.itinerary) {
+    const exists = current.itinerary.find(i => i.id === item.id);
+    if (exists && !isConflict('itinerary', item.id)) continue;
+    if (exists && !overwrite) { report.skipped++; continue; }
+    // Restoring over an existing record is a deliberate overwrite, not a conflict
+    await (exists ? store.updateItinerary({ ...item, revision: exists.revision }) : store.addItinerary(item));
+    report.itinerary++;
+  }
+
+  for (const item of manifest.expenses) {
+    const exists = current.expenses.find(e => e.id === item.id);
+    if (exists && !isConflict('expense', item.id)) continue;
+    if (exists && !overwrite) { report.skipped++; continue; }
+    const restored = await restoreReceipt(item);
+    await (exists ? store.updateExpense({ ...restored, revision: exists.revision }) : store.addExpense(restored));
+    report.expenses++;
+  }
+
+  // Payments are never edited, so one with a known id is already there
+  for (const payment of manifest.settlements || []) {
+    if (current.settlements.some(p => p.id === payment.id)) continue;
+    await store.addSettlement(payment);
+    report.settlements++;
+  }
+
+  for (const photo of manifest.photos) {
+    const url = photoData[photo.id];
+    if (!url) continue;
+    if (current.photos.some(p => p.id === photo.id)) { report.skipped++; continue; }
+    const { file, ...meta } = photo;
+    await store.addPhoto({ ...meta, url, uploaded: false, tripId: store.tripId });
+    report.photos++;
+  }
+
+  const currentExtras = readTripExtras(store.tripId);
+  const extras: TripExtras = { ...manifest.extras };
+  (['flight', 'hotel'] as const).forEach(kind => {
+    if (!overwrite && isConflict(kind, kind)) {
+      delete extras[kind];
+      report.skipped++;
+    }
+  });
+  if (currentExtras.weather !== undefined && !overwrite) delete extras.weather;
+  writeTripExtras(store.tripId, extras);
+
+  return report;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_TRIP_DAYS, getTripDates, getTripLength, getTripRangeError } from './trips';
+import { countNights } from './members';
+
+describe('getTripDates', () => {
+  it('lists every day inclusive, across a month end', () => {
+    expect(getTripDates({ startDate: '2026-01-30', endDate: '2026-02-02' })).toEqual(['2026-01-30', '2026-01-31', '2026-02-01', '2026-02-02']);
+  });
+
+  it('stops after MAX_TRIP_DAYS for a far-future end date', () => {
+    const dates = getTripDates({ startDate: '2026-01-16', endDate: '9026-01-20' });
+    expect(dates).toHaveLength(MAX_TRIP_DAYS);
+    expect(dates[0]).toBe('2026-01-16');
+  });
+
+  it('returns nothing for unreadable dates', () => {
+    expect(getTripDates({ startDate: '', endDate: '2026-01-20' })).toEqual([]);
+  });
+
+  it('keeps a mistyped hotel check-out from counting millions of nights', () => {
+    expect(countNights(undefined, '2026-01-16', '9026-01-20')).toBe(MAX_TRIP_DAYS - 1);
+  });
+});
+
+describe('getTripRangeError', () => {
+  it('accepts a trip up to MAX_TRIP_DAYS long', () => {
+    expect(getTripLength({ startDate: '2026-01-01', endDate: '2026-03-01' })).toBe(60);
+    expect(getTripRangeError({ startDate: '2026-01-01', endDate: '2026-03-01' })).toBeNull();
+  });
+
+  it('rejects reversed, unreadable and overlong ranges', () => {
+    expect(getTripRangeError({ startDate: '2026-01-20', endDate: '2026-01-16' })).toMatch(/after departure/);
+    expect(getTripRangeError({ startDate: 'soon', endDate: '2026-01-16' })).toMatch(/unreadable/);
+    expect(getTripRangeError({ startDate: '2026-01-16', endDate: '9026-01-20' })).toMatch(`${MAX_TRIP_DAYS} days`);
+  });
+});
@@ -0,0 +1,98 @@
+import { Trip, DEFAULT_TRIP } from '../types';
+
+const TRIPS_KEY = 'seoul-trips';
+const ACTIVE_TRIP_KEY = 'seoul-active-trip';
+
+// Per-trip extras that live only in localStorage (owned by ToolView / PlanView)
+export const TRIP_EXTRA_KEYS = {
+  flight: 'seoul-tool-flight',
+  hotel: 'seoul-tool-hotel',
+  weather: 'seoul-trip-weather',
+};
+
+// Scope a localStorage key to a trip.
+// The original Seoul trip keeps the legacy (un-suffixed) keys so data saved before multi-trip support still loads.
+export const tripStorageKey = (base: string, tripId: string): string => {
+  return tripId === DEFAULT_TRIP.id ? base : `${base}:${tripId}`;
+};
+
+// Load the list of trips known on this device
+export const loadTrips = (): Trip[] => {
+  try {
+    const saved = localStorage.getItem(TRIPS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed.filter(t => t && typeof t.id === 'string');
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load trips", e);
+  }
+  return [DEFAULT_TRIP];
+};
+
+export const saveTrips = (trips: Trip[]) => {
+  try {
+    localStorage.setItem(TRIPS_KEY, JSON.stringify(trips));
+  } catch (e) {
+    console.error("Failed to persist trips", e);
+  }
+};
+
+export const loadActiveTripId = (): string => {
+  return localStorage.getItem(ACTIVE_TRIP_KEY) || DEFAULT_TRIP.id;
+};
+
+export const saveActiveTripId = (id: string) => {
+  localStorage.setItem(ACTIVE_TRIP_KEY, id);
+};
+
+// e.g. "Tokyo Spring" -> "tokyo_spring_lx3k9a"
+export const createTripId = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 24);
+  return `${slug || 'trip'}_${Date.now().toString(36)}`;
+};
+
+// Longest trip the plan and charts are laid out for
+export const MAX_TRIP_DAYS = 60;
+
+// Number of days from startDate to endDate, inclusive (0 if the dates are unreadable or reversed)
+export const getTripLength = (trip: Pick<Trip, 'startDate' | 'endDate'>): number => {
+  const days = (Date.parse(`${trip.endDate}T00:00:00Z`) - Date.parse(`${trip.startDate}T00:00:00Z`)) / 86400000 + 1;
+  return days > 0 ? days : 0;
+};
+
+// Why a trip's dates can't be used, or null if they can. Checked wherever a trip enters the app
+// (created, restored from a backup, joined through an invite).
+export const getTripRangeError = (trip: Pick<Trip, 'startDate' | 'endDate'>): string | null => {
+  if (isNaN(Date.parse(`${trip.startDate}T00:00:00Z`)) || isNaN(Date.parse(`${trip.endDate}T00:00:00Z`))) return 'Trip dates are missing or unreadable.';
+  if (trip.endDate < trip.startDate) return 'Return date must be after departure.';
+  if (getTripLength(trip) > MAX_TRIP_DAYS) return `Trips can be at most ${MAX_TRIP_DAYS} days long.`;
+  return null;
+};
+
+// Every date (YYYY-MM-DD) from startDate to endDate, inclusive, stopping after MAX_TRIP_DAYS
+// so a mistyped year can't produce millions of days. Uses UTC math so DST changes never skip or repeat a day.
+export const getTripDates = (trip: Pick<Trip, 'startDate' | 'endDate'>): string[] => {
+  const dates: string[] = [];
+  const start = new Date(`${trip.startDate}T00:00:00Z`);
+  const end = new Date(`${trip.endDate}T00:00:00Z`);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return dates;
+
+  for (let d = start; d <= end && dates.length < MAX_TRIP_DAYS; d = new Date(d.getTime() + 86400000)) {
+    dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+// Local calendar date (YYYY-MM-DD) and clock time (HH:MM) of a moment, as typed into date/time inputs
+export const toLocalDate = (at: Date | number = new Date()): string => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const toLocalTime = (at: Date | number = new Date()): string => {
+  const d = new Date(at);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
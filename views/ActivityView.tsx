@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { History, Receipt, Map, Camera, User, Plus, Edit2, Trash2, CloudOff, PiggyBank, HandCoins } from 'lucide-react';
+import { ActivityEntry, ActivityType, ActivityAction } from '../types';
+
+interface ActivityViewProps {
+  entries: ActivityEntry[];
+  tripUsers: string[];
+  isShared: boolean;
+}
+
+const TYPE_META: Record<ActivityType, { label: string; icon: React.ReactNode; color: string }> = {
+  expense: { label: 'Expense', icon: <Receipt size={12} />, color: 'bg-green-100 text-green-700' },
+  itinerary: { label: 'Plan', icon: <Map size={12} />, color: 'bg-blue-100 text-blue-700' },
+  photo: { label: 'Photo', icon: <Camera size={12} />, color: 'bg-pink-100 text-pink-700' },
+  passenger: { label: 'Passenger', icon: <User size={12} />, color: 'bg-purple-100 text-purple-700' },
+  settlement: { label: 'Payback', icon: <HandCoins size={12} />, color: 'bg-teal-100 text-teal-700' },
+  budget: { label: 'Budget', icon: <PiggyBank size={12} />, color: 'bg-yellow-100 text-yellow-700' },
+};
+
+const ACTION_META: Record<ActivityAction, { verb: string; icon: React.ReactNode }> = {
+  add: { verb: 'added', icon: <Plus size={10} /> },
+  update: { verb: 'edited', icon: <Edit2 size={10} /> },
+  delete: { verb: 'removed', icon: <Trash2 size={10} /> },
+};
+
+const describe = (entry: ActivityEntry) => {
+  const noun = entry.type === 'itinerary' ? 'plan' : entry.type;
+  return `${ACTION_META[entry.action].verb} ${noun} "${entry.label}"`;
+};
+
+export const ActivityView: React.FC<ActivityViewProps> = ({ entries, tripUsers, isShared }) => {
+  const [personFilter, setPersonFilter] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ActivityType | null>(null);
+
+  // Anyone who appears in the log, even if they have since left the trip
+  const people = Array.from(new Set([...tripUsers, ...entries.map(e => e.actor)]));
+
+  const visible = entries.filter(e =>
+    (!personFilter || e.actor === personFilter) && (!typeFilter || e.type === typeFilter)
+  );
+
+  // Group by calendar day, newest first (entries already arrive newest first)
+  const days: { day: string; items: ActivityEntry[] }[] = [];
+  visible.forEach(entry => {
+    const day = new Date(entry.at).toLocaleDateString();
+    const last = days[days.length - 1];
+    if (last && last.day === day) last.items.push(entry);
+    else days.push({ day, items: [entry] });
+  });
+
+  const chip = (isActive: boolean) =>
+    `shrink-0 px-2.5 py-1 rounded-full text-[10px] font-black border-2 transition-colors ${isActive ? 'bg-retro-text text-white border-retro-text' : 'bg-white text-gray-500 border-gray-200'}`;
+
+  return (
+    <div className="px-5 pb-10 space-y-5">
+
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-2 pt-2">
+         <div className="p-2 bg-retro-text text-retro-bg rounded-lg">
+           <History size={24} />
+         </div>
+         <div>
+            <h1 className="text-xl font-pixel text-retro-text leading-none mt-1">ACTIVITY</h1>
+            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                Who changed what
+            </p>
+         </div>
+      </div>
+
+      {!isShared ? (
+        <div className="bg-white rounded-2xl p-6 text-center border border-gray-100 shadow-sm">
+          <CloudOff size={24} className="mx-auto text-gray-300 mb-2" />
+          <p className="text-xs font-bold text-gray-500">Activity is recorded while cloud sync is on.</p>
+        </div>
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="space-y-2">
+            <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+              <button onClick={() => setPersonFilter(null)} className={chip(!personFilter)}>EVERYONE</button>
+              {people.map(name => (
+                <button key={name} onClick={() => setPersonFilter(personFilter === name ? null : name)} className={chip(personFilter === name)}>
+                  {name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+              <button onClick={() => setTypeFilter(null)} className={chip(!typeFilter)}>ALL</button>
+              {(Object.keys(TYPE_META) as ActivityType[]).map(type => (
+                <button key={type} onClick={() => setTypeFilter(typeFilter === type ? null : type)} className={chip(typeFilter === type)}>
+                  {TYPE_META[type].label.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          {days.length === 0 ? (
+            <div className="text-center py-10 text-xs font-bold text-gray-400">No activity yet.</div>
+          ) : days.map(({ day, items }) => (
+            <div key={day}>
+              <div className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">{day}</div>
+              <div className="relative pl-5 space-y-3 before:absolute before:left-[7px] before:top-1 before:bottom-1 before:w-0.5 before:bg-retro-text/10">
+                {items.map(entry => {
+                  const type = TYPE_META[entry.type];
+                  return (
+                    <div key={entry.id} className="relative bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                      <div className={`absolute -left-[19px] top-3 w-4 h-4 rounded-full flex items-center justify-center ${type.color}`}>
+                        {ACTION_META[entry.action].icon}
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={`flex items-center gap-1 text-[9px] font-black px-1.5 py-0.5 rounded ${type.color}`}>
+                          {type.icon} {type.label.toUpperCase()}
+                        </span>
+                        <span className="text-[9px] font-bold text-gray-400 font-mono">
+                          {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </div>
+                      <p className="text-xs font-bold text-gray-700 mt-1.5 leading-snug">
+                        <span className="font-black text-retro-text">{entry.actor}</span> {describe(entry)}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,20 @@
 import React, { useState, useRef } from 'react';
-import { Camera, ArrowRight, Plane } from 'lucide-react';
+import { Camera, ArrowRight, Plane, Ticket, AlertCircle } from 'lucide-react';
+import { Trip } from '../types';
 
 interface LoginViewProps {
+  trip: Trip;
   onLogin: (name: string, avatar: string | null) => void;
+  isInvited?: boolean;     // Arrived through a valid invite link/code
+  inviteError?: string;    // Why the invite from the link was rejected
+  onJoinWithCode?: (code: string) => Promise<string | null>;
 }
 
-export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
+export const LoginView: React.FC<LoginViewProps> = ({ trip, onLogin, isInvited = false, inviteError, onJoinWithCode }) => {
   const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
   const [avatar, setAvatar] = useState<string | null>(null);
   const [isPrinting, setIsPrinting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -59,6 +67,15 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
     }
   };
 
+  const handleJoinWithCode = async () => {
+    if (!onJoinWithCode || !inviteCode.trim()) return;
+    setIsJoining(true);
+    const joinFailure = await onJoinWithCode(inviteCode);
+    setIsJoining(false);
+    setCodeError(joinFailure || '');
+    if (!joinFailure) setInviteCode('');
+  };
+
   const handleCheckIn = () => {
     if (!name) return;
     
@@ -87,7 +104,7 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
       
       {/* Background decoration */}
       <div className="absolute inset-0 bg-dot-pattern opacity-50 pointer-events-none"></div>
-      <div className="absolute top-10 left-10 text-9xl text-retro-accent/5 font-pixel pointer-events-none rotate-12">2026</div>
+      <div className="absolute top-10 left-10 text-9xl text-retro-accent/5 font-pixel pointer-events-none rotate-12">{trip.startDate.slice(0, 4)}</div>
 
       {/* --- FORM STATE --- */}
       <div className={`w-full max-w-sm transition-all duration-700 ${isPrinting ? 'opacity-0 scale-90 translate-y-20' : 'opacity-100 scale-100'}`}>
@@ -97,9 +114,25 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
             <Plane size={40} className="text-retro-text" />
           </div>
           <h1 className="text-3xl font-pixel text-retro-text mb-2">CHECK-IN</h1>
-          <p className="text-xs font-bold font-sans text-retro-accent tracking-widest uppercase">Seoul Trip 2026</p>
+          <p className="text-xs font-bold font-sans text-retro-accent tracking-widest uppercase">{trip.name}</p>
         </div>
 
+        {isInvited && (
+          <div className="mb-4 bg-retro-light border-2 border-retro-dark/20 rounded-xl p-3 flex items-center gap-2">
+            <Ticket size={16} className="text-retro-dark shrink-0" />
+            <p className="text-[10px] font-bold text-retro-dark leading-tight">
+              You're invited to <span className="font-black">{trip.name}</span>. Check in to join the group!
+            </p>
+          </div>
+        )}
+
+        {inviteError && (
+          <div className="mb-4 bg-red-50 border border-red-100 rounded-xl p-3 flex items-start gap-2">
+            <AlertCircle size={16} className="text-red-500 shrink-0 mt-0.5" />
+            <p className="text-[10px] font-bold text-red-600 leading-tight">{inviteError}</p>
+          </div>
+        )}
+
         <div className="bg-white p-6 rounded-[2rem] shadow-xl border-2 border-retro-text/10 space-y-6 relative">
             {/* Avatar Upload */}
             <div className="flex flex-col items-center gap-3">
@@ -153,6 +186,29 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
               <span>PRINT TICKET</span>
               <ArrowRight size={20} />
             </button>
+
+            {/* Invite Code Entry */}
+            {onJoinWithCode && !isInvited && (
+              <div className="pt-4 border-t border-dashed border-gray-200 space-y-1.5">
+                <label className="text-[10px] font-black text-gray-400 ml-2 uppercase tracking-wide">Have an invite code or link?</label>
+                <div className="flex gap-2">
+                  <input
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(/[/?]/.test(e.target.value) ? e.target.value : e.target.value.toUpperCase())}
+                    placeholder="ABC123"
+                    className="flex-1 bg-retro-bg p-3 rounded-xl text-center text-sm font-black font-mono tracking-[0.3em] text-retro-text focus:outline-none border-2 border-transparent focus:border-retro-accent placeholder:text-gray-300"
+                  />
+                  <button
+                    onClick={handleJoinWithCode}
+                    disabled={isJoining || !inviteCode}
+                    className="px-4 rounded-xl bg-retro-accent text-white font-black text-xs active:scale-95 transition-transform disabled:opacity-50"
+                  >
+                    {isJoining ? '...' : 'JOIN'}
+                  </button>
+                </div>
+                {codeError && <p className="text-[10px] font-bold text-red-500 px-2">{codeError}</p>}
+              </div>
+            )}
         </div>
       </div>
 
@@ -209,8 +265,8 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
             {/* Row 2: Destination SEOUL */}
             <div className="h-40 relative flex flex-col items-center justify-center border-b-[2px] border-[#3E2723] bg-[#E3D5CA] overflow-hidden">
                 <span className="text-[9px] font-black tracking-[0.4em] text-[#3E2723]/70 mb-0 z-10 absolute top-3">FINAL DESTINATION</span>
-                <h1 className="text-[5.5rem] font-black text-[#2a1d1a] tracking-tighter leading-none scale-y-[1.2] z-10 font-sans relative drop-shadow-sm">
-                    SEOUL
+                <h1 className={`${trip.destination.length > 6 ? 'text-[3rem]' : 'text-[5.5rem]'} font-black text-[#2a1d1a] tracking-tighter leading-none scale-y-[1.2] z-10 font-sans relative drop-shadow-sm max-w-full truncate px-2`}>
+                    {trip.destination.toUpperCase()}
                 </h1>
                 
                 {/* Grunge/Stamp overlay */}
@@ -228,14 +284,14 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
                 <div className="p-2 h-16 flex flex-col relative justify-center">
                     <span className="text-[7px] font-bold text-[#3E2723]/60 uppercase tracking-wide text-center mb-1">DEPARTURE</span>
                     <div className="flex items-center justify-center">
-                        <span className="text-lg font-bold text-[#2a1d1a] font-mono tracking-tighter">2026.01.16</span>
+                        <span className="text-lg font-bold text-[#2a1d1a] font-mono tracking-tighter">{trip.startDate.replace(/-/g, '.')}</span>
                     </div>
                 </div>
                 {/* End Date */}
                 <div className="p-2 h-16 flex flex-col relative justify-center">
                     <span className="text-[7px] font-bold text-[#3E2723]/60 uppercase tracking-wide text-center mb-1">RETURN</span>
                     <div className="flex items-center justify-center">
-                        <span className="text-lg font-bold text-[#2a1d1a] font-mono tracking-tighter">2026.01.20</span>
+                        <span className="text-lg font-bold text-[#2a1d1a] font-mono tracking-tighter">{trip.endDate.replace(/-/g, '.')}</span>
                     </div>
                 </div>
             </div>
@@ -1,13 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { RefreshCw, Zap, ZapOff, Aperture, Save, Repeat } from 'lucide-react';
-import { Photo } from '../types';
+import { Photo, Trip } from '../types';
 
 interface PhotoViewProps {
   user: { name: string; avatar: string | null } | null;
+  trip: Trip;
   onSavePhoto: (photo: Photo) => void;
 }
 
-export const PhotoView: React.FC<PhotoViewProps> = ({ user, onSavePhoto }) => {
+export const PhotoView: React.FC<PhotoViewProps> = ({ user, trip, onSavePhoto }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
@@ -254,7 +255,7 @@ export const PhotoView: React.FC<PhotoViewProps> = ({ user, onSavePhoto }) => {
         {/* Caption Area */}
         <div className="mt-3 px-1 flex justify-center items-center">
             <span className="font-hand text-base text-gray-500 tracking-wide transform -rotate-1 truncate">
-              KR-SEOUL / {formatDate(currentTime)}
+              {trip.destination.toUpperCase()} / {formatDate(currentTime)}
             </span>
         </div>
 
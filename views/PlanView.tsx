@@ -1,48 +1,79 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Navigation, ShoppingBag, Utensils, Train, MapPin, X, ChevronDown, ChevronUp, Cloud, Sun, CloudRain, CloudSnow, Edit2, Trash2, Wand2 } from 'lucide-react';
-import { ItineraryItem, Category, WeatherInfo } from '../types';
+import { Plus, Navigation, ShoppingBag, Utensils, Train, MapPin, X, ChevronDown, ChevronUp, Cloud, Sun, CloudRain, CloudSnow, Edit2, Trash2, Wand2, Wallet, Building } from 'lucide-react';
+import { ItineraryItem, ExpenseItem, Category, WeatherInfo, Trip } from '../types';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { ConflictResolver, ConflictField } from '../components/ConflictResolver';
 import { getAIWeatherForecast } from '../services/geminiService';
+import { tripStorageKey, getTripDates, TRIP_EXTRA_KEYS } from '../utils/trips';
+import { toBase, formatMoney } from '../utils/currency';
 
 interface PlanViewProps {
+  trip: Trip;
   items: ItineraryItem[];
+  expenses: ExpenseItem[];
   setItems?: React.Dispatch<React.SetStateAction<ItineraryItem[]>>; 
   onAdd: (item: ItineraryItem) => void;
   onUpdate: (item: ItineraryItem) => void;
   onDelete: (id: string) => void;
+  // Open the expense form pre-filled for this activity
+  onAddExpense: (item: ItineraryItem) => void;
 }
 
-// Initial placeholder data (Hardcoded as fallback)
-const INITIAL_DATES: WeatherInfo[] = [
-    { date: '2026-01-16', label: '01/16', dayNum: 1, condition: 'cloudy', temp: '4°C' },
-    { date: '2026-01-17', label: '01/17', dayNum: 2, condition: 'sunny', temp: '2°C' },
-    { date: '2026-01-18', label: '01/18', dayNum: 3, condition: 'snow', temp: '0°C' },
-    { date: '2026-01-19', label: '01/19', dayNum: 4, condition: 'sunny', temp: '2°C' },
-    { date: '2026-01-20', label: '01/20', dayNum: 5, condition: 'cloudy', temp: '3°C' },
+// Placeholder weather for every day of the trip (used until a saved or AI forecast exists)
+const buildInitialDates = (trip: Trip): WeatherInfo[] => {
+  return getTripDates(trip).map((date, idx): WeatherInfo => ({
+    date,
+    label: `${date.slice(5, 7)}/${date.slice(8, 10)}`,
+    dayNum: idx + 1,
+    condition: 'cloudy',
+    temp: '--°C'
+  }));
+};
+
+const CONFLICT_FIELDS: ConflictField[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'date', label: 'Date' },
+  { key: 'time', label: 'Time' },
+  { key: 'location', label: 'Place' },
+  { key: 'category', label: 'Type' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'completed', label: 'Done', format: (v) => v ? 'Yes' : 'No' },
 ];
 
-export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDelete }) => {
+export const PlanView: React.FC<PlanViewProps> = ({ trip, items, expenses, onAdd, onUpdate, onDelete, onAddExpense }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<ItineraryItem | null>(null);
-  const [expandedDay, setExpandedDay] = useState<string | null>('2026-01-16'); 
-  const [selectedDateForAdd, setSelectedDateForAdd] = useState<string>('2026-01-16');
+  const [expandedDay, setExpandedDay] = useState<string | null>(trip.startDate); 
+  const [selectedDateForAdd, setSelectedDateForAdd] = useState<string>(trip.startDate);
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
   const [isWeatherLoading, setIsWeatherLoading] = useState(false);
 
-  // Use state for dates to allow updates
+  const weatherKey = tripStorageKey(TRIP_EXTRA_KEYS.weather, trip.id);
+
+  // Use state for dates to allow updates. Saved weather is matched by date so a changed trip range still lines up.
   const [dates, setDates] = useState<WeatherInfo[]>(() => {
-    const saved = localStorage.getItem('seoul-trip-weather');
-    return saved ? JSON.parse(saved) : INITIAL_DATES;
+    const initial = buildInitialDates(trip);
+    try {
+      const saved = localStorage.getItem(weatherKey);
+      if (!saved) return initial;
+      const parsed: WeatherInfo[] = JSON.parse(saved);
+      return initial.map(d => {
+        const match = parsed.find(p => p.date === d.date);
+        return match ? { ...d, condition: match.condition, temp: match.temp } : d;
+      });
+    } catch {
+      return initial;
+    }
   });
 
   useEffect(() => {
-    localStorage.setItem('seoul-trip-weather', JSON.stringify(dates));
-  }, [dates]);
+    localStorage.setItem(weatherKey, JSON.stringify(dates));
+  }, [dates, weatherKey]);
 
   const fetchAIWeather = async () => {
     setIsWeatherLoading(true);
     const dateStrings = dates.map(d => d.date);
-    const predictions = await getAIWeatherForecast(dateStrings);
+    const predictions = await getAIWeatherForecast(dateStrings, trip.destination);
     
     if (predictions && predictions.length > 0) {
         setDates(prev => prev.map(d => {
@@ -70,6 +101,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
       case 'shopping': return <ShoppingBag size={14} />;
       case 'dining': return <Utensils size={14} />;
       case 'transport': return <Train size={14} />;
+      case 'hotel': return <Building size={14} />;
       default: return <MapPin size={14} />;
     }
   };
@@ -79,10 +111,17 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
       case 'shopping': return 'bg-blue-50 text-blue-600';
       case 'dining': return 'bg-orange-50 text-orange-600';
       case 'transport': return 'bg-green-50 text-green-600';
+      case 'hotel': return 'bg-indigo-50 text-indigo-600';
       default: return 'bg-gray-50 text-gray-600';
     }
   };
 
+  // Spend linked to each activity, in KRW
+  const spentByPlan: Record<string, number> = {};
+  expenses.forEach(e => {
+    if (e.itineraryItemId) spentByPlan[e.itineraryItemId] = (spentByPlan[e.itineraryItemId] || 0) + toBase(e);
+  });
+
   const toggleDay = (date: string) => setExpandedDay(expandedDay === date ? null : date);
   
   // Allow manual toggling of weather condition by clicking the icon
@@ -137,6 +176,8 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
   return (
     <>
       <div className="relative z-10 px-5 space-y-5">
+        <ConflictResolver tripId={trip.id} collection="itinerary" fields={CONFLICT_FIELDS} />
+
         <div className="bg-white rounded-2xl p-3 shadow-sm border border-white relative overflow-hidden">
           <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-200 via-pink-200 to-yellow-200 opacity-50"></div>
           
@@ -179,7 +220,7 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
                 <div onClick={() => toggleDay(d.date)} className="p-4 cursor-pointer active:bg-gray-50 relative">
                   <div className="flex justify-between items-start mb-0.5">
                     <div className="bg-[#FF3366] text-white text-[9px] font-bold px-2 py-0.5 rounded-sm shadow-sm transform -rotate-2 origin-bottom-left tracking-wide font-sans">{d.date.replace(/-/g, '.')}</div>
-                    <div className="text-[10px] font-bold text-gray-400 flex items-center gap-1 font-sans">首爾 (Seoul)</div>
+                    <div className="text-[10px] font-bold text-gray-400 flex items-center gap-1 font-sans">{trip.destination}</div>
                   </div>
                   <div className="flex justify-between items-end mt-1.5">
                     <h2 className="text-3xl font-black text-gray-800 font-sans tracking-tight leading-none">DAY <span className="text-2xl">{d.dayNum}</span></h2>
@@ -208,6 +249,9 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
                               <div className="flex items-center gap-1 text-gray-400 text-[10px] truncate mb-2"><MapPin size={10} /><span className="truncate font-medium">{item.location}</span></div>
                               <div className="flex gap-2">
                                 <button onClick={(e) => handleOpenMaps(item.location, e)} className="text-[9px] font-bold bg-[#283618] text-white px-2 py-1 rounded-md flex items-center gap-1 hover:bg-black transition-colors"><Navigation size={9} /> <span>NAVIGATE</span></button>
+                                <button onClick={(e) => { e.stopPropagation(); onAddExpense(item); }} className="text-[9px] font-bold bg-[#00A86B]/10 text-[#00A86B] px-2 py-1 rounded-md flex items-center gap-1 hover:bg-[#00A86B] hover:text-white transition-colors" title="Add expense">
+                                  <Wallet size={9} /> <span>{spentByPlan[item.id] ? formatMoney(spentByPlan[item.id]) : 'EXPENSE'}</span>
+                                </button>
                                 <div className="w-px h-auto bg-gray-200 mx-1"></div>
                                 <button onClick={(e) => handleEditClick(item, e)} className="text-[9px] font-bold bg-gray-100 text-gray-500 p-1.5 rounded-md hover:bg-gray-200 transition-colors" title="Edit"><Edit2 size={12} /></button>
                                 <button onClick={(e) => handleDeleteClick(item.id, e)} className="text-[9px] font-bold bg-red-50 text-red-500 p-1.5 rounded-md hover:bg-red-100 transition-colors" title="Delete"><Trash2 size={12} /></button>
@@ -257,9 +301,9 @@ export const PlanView: React.FC<PlanViewProps> = ({ items, onAdd, onUpdate, onDe
                 <div className="flex-1 space-y-1.5"><label className="text-xs font-bold text-gray-500 ml-1 tracking-wide">TIME</label><input name="time" type="time" defaultValue={editingItem?.time || "12:00"} className="w-full p-4 rounded-xl bg-white border-2 border-transparent focus:border-black focus:outline-none font-bold text-gray-800" /></div>
               </div>
               <div className="space-y-1.5"><label className="text-xs font-bold text-gray-500 ml-1 tracking-wide">CATEGORY</label>
-                 <div className="grid grid-cols-4 gap-2">
-                    {[{ val: 'shopping', icon: ShoppingBag, label: 'SHOP', color: 'blue' }, { val: 'dining', icon: Utensils, label: 'EAT', color: 'orange' }, { val: 'transport', icon: Train, label: 'MOVE', color: 'green' }, { val: 'sightseeing', icon: MapPin, label: 'VIEW', color: 'purple' }].map(({val, icon: Icon, label, color}) => (
-                        <label key={val} className="cursor-pointer group"><input type="radio" name="category" value={val} className="peer hidden" defaultChecked={editingItem ? editingItem.category === val : val === 'shopping'} /><div className={`flex flex-col items-center justify-center p-3 rounded-xl bg-white border-2 border-transparent peer-checked:border-${color}-400 peer-checked:bg-${color}-50 transition-all group-hover:bg-gray-50`}><Icon size={20} className={`mb-1.5 text-${color}-500`}/><span className={`text-[9px] font-bold text-gray-400 peer-checked:text-${color}-600`}>{label}</span></div></label>
+                 <div className="grid grid-cols-5 gap-2">
+                    {[{ val: 'shopping', icon: ShoppingBag, label: 'SHOP', color: 'blue' }, { val: 'dining', icon: Utensils, label: 'EAT', color: 'orange' }, { val: 'transport', icon: Train, label: 'MOVE', color: 'green' }, { val: 'sightseeing', icon: MapPin, label: 'VIEW', color: 'purple' }, { val: 'hotel', icon: Building, label: 'STAY', color: 'indigo' }].map(({val, icon: Icon, label, color}) => (
+                        <label key={val} className="cursor-pointer group"><input type="radio" name="category" value={val} className="peer hidden" defaultChecked={editingItem ? editingItem.category === val : val === 'shopping'} /><div className={`flex flex-col items-center justify-center p-2.5 rounded-xl bg-white border-2 border-transparent peer-checked:border-${color}-400 peer-checked:bg-${color}-50 transition-all group-hover:bg-gray-50`}><Icon size={20} className={`mb-1.5 text-${color}-500`}/><span className={`text-[9px] font-bold text-gray-400 peer-checked:text-${color}-600`}>{label}</span></div></label>
                     ))}
                  </div>
               </div>
@@ -1,118 +1,84 @@
-import React from 'react';
-import { ExpenseItem } from '../types';
-import { ArrowRight, Receipt, CircleDollarSign, AlertCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { ExpenseItem, MemberProfile, SettlementPayment, Trip, TripBudget } from '../types';
+import { BASE_CURRENCY, RateTable, availableCurrencies, convertFromBase, formatMoney, isCommonCurrency } from '../utils/currency';
+import { getBudgetSpend, hasBudget } from '../utils/budget';
+import { EXPENSE_CATEGORIES } from '../utils/categories';
+import { getTripDates, toLocalDate } from '../utils/trips';
+import { getSpendingAnalytics } from '../utils/analytics';
+import { settlementToCsv } from '../utils/csv';
+import { SettlementOptions, SETTLEMENT_MODES, SETTLEMENT_ROUNDINGS, computeBalances, suggestTransfers, getPaymentKRW } from '../utils/settlement';
+import { PAYMENT_HANDLES, getSettleCurrency, hasPaymentHandles, formatTransferInstructions, splitByNights } from '../utils/members';
+import { buildSettlementSummary, settlementSummaryToText, renderSettlementReceipt } from '../utils/settlementSummary';
+import { downloadBlob, toFileSlug } from '../utils/download';
+import { BudgetModal } from '../components/BudgetModal';
+import { SpendingCharts } from '../components/SpendingCharts';
+import { SettlementPaymentModal, getMethodLabel } from '../components/SettlementPaymentModal';
+import { MemberProfileModal } from '../components/MemberProfileModal';
+import { ConfirmModal } from '../components/ConfirmModal';
+import { ArrowRight, Receipt, CircleDollarSign, AlertCircle, PiggyBank, Edit2, Download, HandCoins, Check, Plus, Trash2, Wallet, Copy, Share2 } from 'lucide-react';
 
 interface SettleViewProps {
   expenses: ExpenseItem[];
   tripUsers: string[];
-  exchangeRate: number;
+  rates: RateTable;
+  trip: Trip;
+  budget: TripBudget;
+  onSaveBudget: (budget: TripBudget) => Promise<void>;
+  settlements: SettlementPayment[];
+  onAddSettlement: (payment: SettlementPayment) => void;
+  onDeleteSettlement: (id: string) => void;
+  profiles: Record<string, MemberProfile>;
+  onSaveProfile: (name: string, profile: MemberProfile) => Promise<void>;
 }
 
-export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exchangeRate }) => {
-  // 1. Calculate Balances
-  const balances: Record<string, number> = {};
-  const paidTotals: Record<string, number> = {};
-  
-  // CRITICAL FIX: Collect ALL users involved in expenses, not just current tripUsers.
-  // This ensures that if a user was removed but still has debts/credits, they appear in the math.
-  const allParticipants = new Set<string>(tripUsers);
-  expenses.forEach(e => {
-    if (e.payer) allParticipants.add(e.payer);
-    if (e.splitBy && Array.isArray(e.splitBy)) {
-        e.splitBy.forEach(u => allParticipants.add(u));
-    }
-  });
+const SETTLE_CURRENCY_KEY = 'seoul-settle-currency';
+const SETTLE_OPTIONS_KEY = 'seoul-settle-options';
 
-  const participantsList = Array.from(allParticipants);
+export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, rates, trip, budget, onSaveBudget, settlements, onAddSettlement, onDeleteSettlement, profiles, onSaveProfile }) => {
+  // Currency the totals and transfers are shown in. The math always runs in KRW at each expense's locked rate.
+  const [settleCurrency, setSettleCurrency] = useState(() => localStorage.getItem(SETTLE_CURRENCY_KEY) || 'TWD');
+  const currencies = availableCurrencies(rates);
+  const displayCurrency = currencies.some(c => c.code === settleCurrency) ? settleCurrency : BASE_CURRENCY;
 
-  // Init balances for everyone found
-  participantsList.forEach(u => {
-      balances[u] = 0;
-      paidTotals[u] = 0;
-  });
-
-  expenses.forEach(item => {
-    // Determine beneficiaries.
-    // If splitBy exists, use it. 
-    // If not (Legacy), fallback to isShared logic using the GLOBAL tripUsers (or just the payer if private).
-    // Note: Legacy fallback might be inaccurate if tripUsers changed, but new items use splitBy.
-    const beneficiaries = item.splitBy && item.splitBy.length > 0 
-        ? item.splitBy 
-        : (item.isShared ? tripUsers : [item.payer]);
-
-    // Check if payer is valid (should always be true now with allParticipants)
-    if (paidTotals[item.payer] !== undefined) {
-        paidTotals[item.payer] += item.cost;
-    }
-
-    // Ignore purely private items (Self-paid) from DEBT calculation.
-    // Logic: If I pay 100 split by [Me], cost is 100, I pay 100. Net 0. 
-    // We skip this to simplify the algorithm, but adding it wouldn't break the math (it adds +100 and -100).
-    if (beneficiaries.length === 1 && beneficiaries[0] === item.payer) {
-        return; 
-    }
+  const handleCurrencyChange = (code: string) => {
+    setSettleCurrency(code);
+    localStorage.setItem(SETTLE_CURRENCY_KEY, code);
+  };
 
-    const splitAmount = item.cost / beneficiaries.length;
-    
-    // Payer CREDITED (They paid, so they are owed money)
-    if (balances[item.payer] !== undefined) {
-        balances[item.payer] += item.cost;
+  // How transfers are matched and rounded
+  const [settleOptions, setSettleOptions] = useState<SettlementOptions>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(SETTLE_OPTIONS_KEY) || '{}');
+    } catch {
+      return {};
     }
-
-    // Beneficiaries DEBITED (They consumed, so they owe money)
-    beneficiaries.forEach(b => {
-        // Only debit if this person is tracked in our system
-        if (balances[b] !== undefined) {
-            balances[b] -= splitAmount;
-        }
-    });
   });
+  const handleOptionsChange = (changes: SettlementOptions) => {
+    const next = { ...settleOptions, ...changes };
+    setSettleOptions(next);
+    localStorage.setItem(SETTLE_OPTIONS_KEY, JSON.stringify(next));
+  };
 
-  // 2. Prepare Data for Algorithm
-  const debtData = Object.entries(balances).map(([name, balance]) => ({
-    name,
-    balance
-  }));
-
-  // Separate into Debtors (-) and Creditors (+)
-  // Filter out tiny floating point errors (< 1 KRW)
-  const debtors = debtData.filter(d => d.balance < -1).sort((a, b) => a.balance - b.balance); // Ascending (Largest debt first: -100, -50)
-  const creditors = debtData.filter(d => d.balance > 1).sort((a, b) => b.balance - a.balance); // Descending (Largest credit first: 100, 50)
-
-  const suggestions = [];
-  let i = 0; // Iterator for debtors
-  let j = 0; // Iterator for creditors
-
-  // Working copies of balances to mutate during calculation
-  const dBalances = debtors.map(d => d.balance);
-  const cBalances = creditors.map(c => c.balance);
-
-  // Greedy Algorithm for Debt Settlement
-  while (i < debtors.length && j < creditors.length) {
-    const debt = Math.abs(dBalances[i]);
-    const credit = cBalances[j];
-    
-    // The amount to settle is the minimum of what's owed vs what's receivable
-    const amount = Math.min(debt, credit);
-
-    if (amount > 1) { 
-       suggestions.push({
-         from: debtors[i].name,
-         to: creditors[j].name,
-         amount: Math.round(amount)
-       });
-    }
+  const [isEditingBudget, setIsEditingBudget] = useState(false);
+  // Payment form, pre-filled from a suggestion (amount in KRW), and the payment pending delete
+  const [recording, setRecording] = useState<{ from: string; to: string; amountKRW: number } | null>(null);
+  const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<string | null>(null);
+  // Transfer whose instructions were just copied ("from:to")
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
 
-    // Adjust balances
-    dBalances[i] += amount; // Debt gets closer to 0 (e.g. -100 + 50 = -50)
-    cBalances[j] -= amount; // Credit gets closer to 0 (e.g. 100 - 50 = 50)
+  const money = (amountKRW: number) => formatMoney(convertFromBase(amountKRW, displayCurrency, rates), displayCurrency);
 
-    // Move to next person if settled
-    if (Math.abs(dBalances[i]) < 1) i++;
-    if (cBalances[j] < 1) j++;
-  }
+  // Hotel stays split equally are charged by nights stayed instead, using each passenger's travel dates
+  const settledExpenses = expenses.map(item => splitByNights(item, profiles, trip));
+
+  // 1. Balances (expenses and repayments) and the transfers that clear them; see utils/settlement
+  const { participants: participantsList, balances, paidTotals } = computeBalances(settledExpenses, settlements, tripUsers);
+  const suggestions = suggestTransfers(balances, { ...settleOptions, rates });
 
   const totalTripCost = Object.values(paidTotals).reduce((a, b) => a + b, 0);
+  const analytics = getSpendingAnalytics(settledExpenses, tripUsers, trip);
 
   const getBarWidth = (amount: number) => {
     const maxPaid = Math.max(...Object.values(paidTotals), 1);
@@ -127,6 +93,87 @@ export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exc
     return colors[Math.abs(hash) % colors.length];
   };
 
+  // Each outstanding transfer next to what was already repaid on the same pair.
+  // Pairs repaid in full no longer have a suggestion and are listed as done.
+  const repaid: { from: string; to: string; paid: number }[] = [];
+  settlements.forEach(p => {
+    const pair = repaid.find(r => r.from === p.from && r.to === p.to);
+    if (pair) pair.paid += getPaymentKRW(p);
+    else repaid.push({ from: p.from, to: p.to, paid: getPaymentKRW(p) });
+  });
+  const paidOnPair = (from: string, to: string) => repaid.find(r => r.from === from && r.to === to)?.paid || 0;
+  const transferRows = [
+    ...suggestions.map(s => ({ ...s, paid: paidOnPair(s.from, s.to) })),
+    ...repaid
+      .filter(r => !suggestions.some(s => s.from === r.from && s.to === r.to))
+      .map(r => ({ from: r.from, to: r.to, amount: 0, exact: undefined, paid: r.paid })),
+  ];
+  const paymentHistory = settlements.slice().sort((a, b) => b.at - a.at);
+
+  const handleCopyInstructions = async (transfer: { from: string; to: string; amount: number }) => {
+    try {
+      await navigator.clipboard.writeText(formatTransferInstructions(transfer, profiles, rates, displayCurrency));
+      setCopiedKey(`${transfer.from}:${transfer.to}`);
+      setTimeout(() => setCopiedKey(null), 1500);
+    } catch (e) {
+      console.warn("Clipboard unavailable", e);
+    }
+  };
+
+  // Receipt image plus plain text: shared together where the browser allows it, downloaded otherwise
+  const handleShareSummary = async () => {
+    setIsSharing(true);
+    const summary = buildSettlementSummary(trip, analytics, suggestions, profiles, rates, displayCurrency);
+    const text = settlementSummaryToText(summary);
+    const filename = `${toFileSlug(trip.name)}-settlement`;
+    try {
+      const image = new File([await renderSettlementReceipt(summary)], `${filename}.png`, { type: 'image/png' });
+      if (navigator.canShare?.({ files: [image] })) {
+        await navigator.share({ title: trip.name, text, files: [image] });
+        return;
+      }
+      downloadBlob(image, image.name);
+      downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${filename}.txt`);
+    } catch (e: any) {
+      // Closing the share sheet is not an error
+      if (e?.name === 'AbortError') return;
+      console.warn("Sharing summary failed, falling back to text", e);
+      if (navigator.share) {
+        await navigator.share({ title: trip.name, text }).catch(() => {});
+      } else {
+        downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `${filename}.txt`);
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const csv = settlementToCsv(suggestions, displayCurrency, rates);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${toFileSlug(trip.name)}-settlement.csv`);
+  };
+
+  // 3. Budget progress. A person's allowance is the daily limit times the trip's days.
+  const budgetSpend = getBudgetSpend(settledExpenses, tripUsers);
+  const tripDays = Math.max(getTripDates(trip).length, 1);
+  const today = toLocalDate();
+  const budgetBar = (key: string, label: React.ReactNode, spent: number, limit: number, note?: string) => {
+    const ratio = spent / limit;
+    const color = ratio > 1 ? 'bg-[#FF3366]' : ratio > 0.8 ? 'bg-orange-400' : 'bg-[#00A86B]';
+    return (
+      <div key={key}>
+        <div className="flex justify-between text-xs font-bold mb-1">
+          <span className="flex items-center gap-1.5">{label}</span>
+          <span className={`font-mono ${ratio > 1 ? 'text-[#FF3366]' : ''}`}>{money(spent)} <span className="text-gray-300">/ {money(limit)}</span></span>
+        </div>
+        <div className="h-2 w-full bg-gray-100 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${color}`} style={{ width: `${Math.min(ratio * 100, 100)}%` }}></div>
+        </div>
+        {note && <div className="text-[9px] font-bold text-gray-400 mt-0.5">{note}</div>}
+      </div>
+    );
+  };
+
   // Check if there are "Ghost" users (Involved in money but not in active list)
   const ghostUsers = participantsList.filter(u => !tripUsers.includes(u));
 
@@ -141,9 +188,30 @@ export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exc
          <div>
             <h1 className="text-xl font-pixel text-retro-text leading-none mt-1">SETTLEMENT</h1>
             <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
-                Total Spend: ₩{totalTripCost.toLocaleString()}
+                Total Spend: {money(totalTripCost)}
             </p>
          </div>
+         <div className="ml-auto flex flex-wrap justify-end gap-1">
+            {currencies.filter(c => isCommonCurrency(c.code)).map(c => (
+              <button
+                key={c.code}
+                onClick={() => handleCurrencyChange(c.code)}
+                className={`px-2 py-1 rounded-lg text-[9px] font-black border-2 transition-colors ${displayCurrency === c.code ? 'bg-retro-text text-white border-retro-text' : 'bg-white text-gray-400 border-gray-200'}`}
+              >
+                {c.code}
+              </button>
+            ))}
+            {currencies.some(c => !isCommonCurrency(c.code)) && (
+              <select
+                value={isCommonCurrency(displayCurrency) ? '' : displayCurrency}
+                onChange={e => e.target.value && handleCurrencyChange(e.target.value)}
+                className={`px-1 py-1 rounded-lg text-[9px] font-black border-2 outline-none ${isCommonCurrency(displayCurrency) ? 'bg-white text-gray-400 border-gray-200' : 'bg-retro-text text-white border-retro-text'}`}
+              >
+                <option value="">MORE</option>
+                {currencies.filter(c => !isCommonCurrency(c.code)).map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+              </select>
+            )}
+         </div>
       </div>
 
       {ghostUsers.length > 0 && (
@@ -175,7 +243,7 @@ export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exc
                         <span className={`w-2 h-2 rounded-full inline-block ${getPayerColor(name)}`}></span>
                         {name} {(!tripUsers.includes(name)) && <span className="text-[8px] text-gray-300">(Inactive)</span>}
                      </span>
-                     <span className="font-mono">₩{paid.toLocaleString()}</span>
+                     <span className="font-mono">{money(paid)}</span>
                   </div>
                   {/* Bar */}
                   <div className="h-2 w-full bg-gray-100 rounded-full overflow-hidden">
@@ -189,6 +257,53 @@ export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exc
          </div>
       </div>
 
+      {/* Budget */}
+      <div className="bg-white rounded-[1.5rem] shadow-sm border border-gray-100 p-5">
+         <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xs font-black text-gray-800 tracking-widest uppercase flex items-center gap-2">
+               <PiggyBank size={14} className="text-pink-500" />
+               Budget
+            </h2>
+            <button onClick={() => setIsEditingBudget(true)} className="text-[9px] font-black text-gray-400 hover:text-retro-text flex items-center gap-1 uppercase">
+               <Edit2 size={10} /> {hasBudget(budget) ? 'Edit' : 'Set budget'}
+            </button>
+         </div>
+
+         {!hasBudget(budget) ? (
+            <p className="text-[10px] font-bold text-gray-400">No limits yet. Set a trip, category or daily budget to track spending against it.</p>
+         ) : (
+            <div className="space-y-4">
+               {!!budget.total && budgetBar('total', 'Whole trip', budgetSpend.total, budget.total)}
+               {EXPENSE_CATEGORIES.filter(c => budget.perCategory?.[c.id]).map(c =>
+                  budgetBar(`category:${c.id}`, c.label, budgetSpend.byCategory[c.id] || 0, budget.perCategory![c.id]!)
+               )}
+               {!!budget.perPersonDaily && participantsList.map(name => {
+                  const days = budgetSpend.byPersonDay[name] || {};
+                  const spent = Object.values(days).reduce((a, b) => a + b, 0);
+                  const overDays = Object.values(days).filter(v => v > budget.perPersonDaily!).length;
+                  const notes = [
+                    days[today] ? `Today ${money(days[today])} of ${money(budget.perPersonDaily!)}` : '',
+                    overDays > 0 ? `Over the daily limit on ${overDays} day${overDays > 1 ? 's' : ''}` : ''
+                  ].filter(Boolean).join(' • ');
+                  return budgetBar(
+                    `person:${name}`,
+                    <><span className={`w-2 h-2 rounded-full inline-block ${getPayerColor(name)}`}></span>{name}</>,
+                    spent,
+                    budget.perPersonDaily! * tripDays,
+                    notes || undefined
+                  );
+               })}
+            </div>
+         )}
+      </div>
+
+      {/* Charts */}
+      <SpendingCharts
+         analytics={analytics}
+         money={money}
+         getPersonColor={getPayerColor}
+      />
+
       {/* 2. Transfer Suggestions */}
       <div className="relative">
         <div className="absolute -top-3 left-4 bg-retro-bg px-2 z-10">
@@ -196,40 +311,243 @@ export const SettleView: React.FC<SettleViewProps> = ({ expenses, tripUsers, exc
              ACTION PLAN
            </span>
         </div>
+        {suggestions.length > 0 && (
+          <button onClick={handleExportCsv} className="absolute -top-2.5 right-4 z-10 bg-retro-bg px-2 text-[9px] font-black text-gray-500 hover:text-retro-text flex items-center gap-1 uppercase">
+            <Download size={10} /> CSV
+          </button>
+        )}
         
         <div className="border-[3px] border-[#2a1d1a] rounded-[1.5rem] p-5 pt-8 bg-[#E3D5CA] space-y-3 shadow-[4px_4px_0px_0px_rgba(42,29,26,0.2)]">
-            {suggestions.length === 0 ? (
+            <div className="flex flex-wrap gap-1 justify-between">
+                <div className="flex gap-1">
+                    {SETTLEMENT_MODES.map(m => (
+                        <button key={m.id} onClick={() => handleOptionsChange({ mode: m.id })} className={`px-2 py-0.5 rounded text-[8px] font-black ${(settleOptions.mode || 'greedy') === m.id ? 'bg-[#2a1d1a] text-white' : 'bg-[#FAF9F6]/60 text-gray-500'}`}>
+                            {m.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-1">
+                    {SETTLEMENT_ROUNDINGS.filter(r => r.id !== 'twd' || rates.TWD > 0).map(r => (
+                        <button key={r.id} onClick={() => handleOptionsChange({ rounding: r.id })} className={`px-2 py-0.5 rounded text-[8px] font-black ${(settleOptions.rounding || 'none') === r.id ? 'bg-[#2a1d1a] text-white' : 'bg-[#FAF9F6]/60 text-gray-500'}`}>
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {suggestions.length === 0 && (
                 <div className="text-center py-4 font-black font-mono text-lg text-[#00A86B] border-2 border-dashed border-[#00A86B] rounded-xl bg-[#E3D5CA]/50">
                     ALL SETTLED! 🎉
                 </div>
-            ) : (
-                suggestions.map((s, idx) => (
-                    <div key={idx} className="bg-[#FAF9F6] p-4 rounded-xl shadow-sm border border-[#2a1d1a]/10 flex items-center justify-between relative overflow-hidden">
+            )}
+            {transferRows.map(s => {
+                const isDone = s.amount === 0;
+                return (
+                    <div key={`${s.from}:${s.to}`} className={`bg-[#FAF9F6] p-4 rounded-xl shadow-sm border border-[#2a1d1a]/10 relative overflow-hidden ${isDone ? 'opacity-60' : ''}`}>
                         {/* Cutout decoration */}
                         <div className="absolute -left-2 top-1/2 -translate-y-1/2 w-4 h-4 bg-[#E3D5CA] rounded-full"></div>
                         <div className="absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 bg-[#E3D5CA] rounded-full"></div>
 
-                        <div className="flex items-center gap-3">
-                            <div className={`px-2 py-1 rounded text-xs font-black uppercase ${getPayerColor(s.from)}`}>
-                                {s.from}
-                            </div>
-                            <div className="text-gray-400">
-                                <ArrowRight size={14} strokeWidth={3} />
-                            </div>
-                            <div className={`px-2 py-1 rounded text-xs font-black uppercase ${getPayerColor(s.to)}`}>
-                                {s.to}
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <div className={`px-2 py-1 rounded text-xs font-black uppercase ${getPayerColor(s.from)}`}>
+                                    {s.from}
+                                </div>
+                                <div className="text-gray-400">
+                                    <ArrowRight size={14} strokeWidth={3} />
+                                </div>
+                                <div className={`px-2 py-1 rounded text-xs font-black uppercase ${getPayerColor(s.to)}`}>
+                                    {s.to}
+                                </div>
                             </div>
+
+                            {isDone ? (
+                                <div className="flex items-center gap-1 text-[10px] font-black text-[#00A86B]">
+                                    <Check size={14} strokeWidth={3} /> DONE
+                                </div>
+                            ) : (
+                                <div className="text-right">
+                                    <div className="text-sm font-black text-[#2a1d1a] font-mono">{money(s.amount)}</div>
+                                    {s.exact !== undefined && (
+                                      <div className="text-[8px] font-bold text-orange-500">rounded from {money(s.exact)}</div>
+                                    )}
+                                    {/* What the payer sends and the receiver gets, in their own settle currencies */}
+                                    {Array.from(new Set([
+                                      getSettleCurrency(profiles[s.from], rates, displayCurrency),
+                                      getSettleCurrency(profiles[s.to], rates, displayCurrency),
+                                      BASE_CURRENCY,
+                                    ])).filter(code => code !== displayCurrency).map(code => (
+                                      <div key={code} className="text-[8px] font-bold text-gray-400">{formatMoney(convertFromBase(s.amount, code, rates), code)}</div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
 
-                        <div className="text-right">
-                            <div className="text-sm font-black text-[#2a1d1a] font-mono">₩{s.amount.toLocaleString()}</div>
-                            <div className="text-[8px] font-bold text-gray-400">NT${Math.round(s.amount * exchangeRate).toLocaleString()}</div>
+                        {!isDone && hasPaymentHandles(profiles[s.to]) && (
+                            <div className="mt-2 pl-1 space-y-0.5">
+                                {PAYMENT_HANDLES.filter(h => profiles[s.to]?.[h.key]).map(h => (
+                                    <div key={h.key} className="text-[9px] font-bold text-gray-500 truncate">
+                                        <span className="text-gray-400 uppercase">{h.label}</span> {profiles[s.to]![h.key]}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-between mt-2 pl-1">
+                            <span className="text-[9px] font-bold text-gray-400">
+                                {s.paid > 0 && (isDone ? `Paid ${money(s.paid)}` : `PARTLY PAID • ${money(s.paid)} so far`)}
+                            </span>
+                            {!isDone && (
+                              <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => handleCopyInstructions(s)}
+                                    className="text-[9px] font-black text-gray-500 border border-gray-300 rounded-lg px-2 py-0.5 flex items-center gap-1 hover:bg-gray-100 transition-colors"
+                                >
+                                    {copiedKey === `${s.from}:${s.to}` ? <><Check size={10} /> COPIED</> : <><Copy size={10} /> COPY</>}
+                                </button>
+                                <button
+                                    onClick={() => setRecording({ from: s.from, to: s.to, amountKRW: s.amount })}
+                                    className="text-[9px] font-black text-[#00A86B] border border-[#00A86B] rounded-lg px-2 py-0.5 flex items-center gap-1 hover:bg-[#00A86B] hover:text-white transition-colors"
+                                >
+                                    <HandCoins size={10} /> MARK PAID
+                                </button>
+                              </div>
+                            )}
                         </div>
                     </div>
-                ))
-            )}
+                );
+            })}
         </div>
       </div>
+
+      <button
+        onClick={handleShareSummary}
+        disabled={isSharing || totalTripCost === 0}
+        className="w-full py-3 rounded-xl border-[3px] border-[#2a1d1a] bg-[#FAF9F6] text-[#2a1d1a] font-black text-xs flex items-center justify-center gap-2 shadow-[4px_4px_0px_0px_rgba(42,29,26,0.2)] active:translate-y-0.5 transition-transform disabled:opacity-50"
+      >
+        {isSharing ? (
+          <div className="w-4 h-4 border-2 border-[#2a1d1a] border-t-transparent rounded-full animate-spin"></div>
+        ) : (
+          <Share2 size={14} />
+        )}
+        SHARE SUMMARY
+      </button>
+
+      {/* Passengers: when they are around, and where they want to be paid */}
+      <div className="bg-white rounded-[1.5rem] shadow-sm border border-gray-100 p-5">
+         <h2 className="text-xs font-black text-gray-800 tracking-widest uppercase mb-3 flex items-center gap-2">
+            <Wallet size={14} className="text-indigo-500" />
+            Passengers
+         </h2>
+         <div className="space-y-2">
+            {tripUsers.map(name => {
+               const profile = profiles[name];
+               return (
+                  <div key={name} className="flex items-center gap-2 text-xs">
+                     <span className={`w-2 h-2 rounded-full inline-block shrink-0 ${getPayerColor(name)}`}></span>
+                     <div className="flex-1 min-w-0">
+                        <div className="font-bold truncate">
+                           {name} <span className="text-[9px] font-black text-gray-400">{getSettleCurrency(profile, rates, displayCurrency)}</span>
+                        </div>
+                        {(profile?.arrival || profile?.departure) && (
+                           <div className="text-[9px] font-bold text-gray-500 truncate">
+                              {profile.arrival || trip.startDate} ~ {profile.departure || trip.endDate}
+                           </div>
+                        )}
+                        <div className="text-[9px] font-bold text-gray-400 truncate">
+                           {hasPaymentHandles(profile)
+                             ? PAYMENT_HANDLES.filter(h => profile?.[h.key]).map(h => `${h.label}: ${profile![h.key]}`).join(' • ')
+                             : 'No payment details yet'}
+                        </div>
+                     </div>
+                     <button onClick={() => setEditingProfile(name)} className="text-gray-300 hover:text-retro-text p-1">
+                        <Edit2 size={12} />
+                     </button>
+                  </div>
+               );
+            })}
+         </div>
+      </div>
+
+      {/* 3. Payment history */}
+      <div className="bg-white rounded-[1.5rem] shadow-sm border border-gray-100 p-5">
+         <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xs font-black text-gray-800 tracking-widest uppercase flex items-center gap-2">
+               <HandCoins size={14} className="text-teal-500" />
+               Payments
+            </h2>
+            <button
+               onClick={() => setRecording({ from: participantsList[0] || '', to: participantsList[1] || '', amountKRW: 0 })}
+               disabled={participantsList.length < 2}
+               className="text-[9px] font-black text-gray-400 hover:text-retro-text flex items-center gap-1 uppercase disabled:opacity-40"
+            >
+               <Plus size={10} /> Record
+            </button>
+         </div>
+
+         {paymentHistory.length === 0 ? (
+            <p className="text-[10px] font-bold text-gray-400">No repayments recorded yet. Use MARK PAID once a transfer has been made.</p>
+         ) : (
+            <div className="space-y-2">
+               {paymentHistory.map(p => (
+                  <div key={p.id} className="flex items-center gap-2 text-xs">
+                     <div className="flex-1 min-w-0">
+                        <div className="font-bold truncate">{p.from} → {p.to}</div>
+                        <div className="text-[9px] font-bold text-gray-400 truncate">
+                           {new Date(p.at).toLocaleDateString()} • {getMethodLabel(p.method)}{p.note ? ` • ${p.note}` : ''}{p.updatedBy ? ` • by ${p.updatedBy}` : ''}
+                        </div>
+                     </div>
+                     <div className="font-mono font-bold shrink-0">{formatMoney(p.amount, p.currency)}</div>
+                     <button onClick={() => setDeletingPaymentId(p.id)} className="text-gray-300 hover:text-red-500 p-1">
+                        <Trash2 size={12} />
+                     </button>
+                  </div>
+               ))}
+            </div>
+         )}
+      </div>
+
+      {recording && (
+        <SettlementPaymentModal
+          people={participantsList}
+          initial={recording}
+          currency={displayCurrency}
+          rates={rates}
+          onSave={onAddSettlement}
+          onClose={() => setRecording(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!deletingPaymentId}
+        onClose={() => setDeletingPaymentId(null)}
+        onConfirm={() => {
+          if (deletingPaymentId) onDeleteSettlement(deletingPaymentId);
+          setDeletingPaymentId(null);
+        }}
+        title="DELETE PAYMENT?"
+        message="The debt it paid off will show up again."
+      />
+
+      {editingProfile && (
+        <MemberProfileModal
+          name={editingProfile}
+          profile={profiles[editingProfile] || {}}
+          trip={trip}
+          rates={rates}
+          onSave={profile => onSaveProfile(editingProfile, profile)}
+          onClose={() => setEditingProfile(null)}
+        />
+      )}
+
+      {isEditingBudget && (
+        <BudgetModal
+          budget={budget}
+          currency={displayCurrency}
+          rates={rates}
+          onSave={onSaveBudget}
+          onClose={() => setIsEditingBudget(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Plane, Building, Phone, Plus, Edit2, MapPin, ChevronDown, ChevronUp, Wallet, AlertTriangle, X, User, Lock, Trash2, CheckCircle } from 'lucide-react';
-import { ExpenseItem } from '../types';
+import { Plane, Building, Phone, Plus, Edit2, MapPin, ChevronDown, ChevronUp, Wallet, AlertTriangle, X, User, Lock, Trash2, CheckCircle, RotateCw, Camera, Receipt, Loader2, Download, Upload } from 'lucide-react';
+import { ExpenseItem, ExpenseLineItem, ItineraryItem, Category, SplitMode, TripBudget, MemberProfile, Trip, DEFAULT_TRIP } from '../types';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { ConflictResolver, ConflictField } from '../components/ConflictResolver';
+import { ReceiptViewer } from '../components/ReceiptViewer';
+import { CsvImportModal } from '../components/CsvImportModal';
+import { parseReceipt, isReceiptParsingAvailable, ParsedReceipt } from '../services/geminiService';
+import { imageFileToDataUrl } from '../utils/image';
+import { tripStorageKey, TRIP_EXTRA_KEYS, toLocalDate, toLocalTime } from '../utils/trips';
+import { SPLIT_MODES, validateSplit, getSplitRemainder, validatePayers, getExpensePayments, validateLineItems, getLineParticipants, getExpenseShares } from '../utils/splits';
+import { RateState, RateQuote, getProviderLabel, getRatesForDay, getLockRates } from '../services/exchangeRates';
+import { EXPENSE_CATEGORIES, getCategoryLabel } from '../utils/categories';
+import { getBudgetWarnings } from '../utils/budget';
+import { getPresentUsers, splitByNights } from '../utils/members';
+import { expensesToCsv } from '../utils/csv';
+import { applyExpenseEdit } from '../utils/expenses';
+import { downloadBlob, toFileSlug } from '../utils/download';
+import { BASE_CURRENCY, availableCurrencies, getPairRate, getCurrency, rateToBaseFor, toBase, formatMoney, roundToCurrency } from '../utils/currency';
 
 interface FlightData {
   code: string;
@@ -15,21 +30,66 @@ interface HotelData {
   address: string;
 }
 
+// Fields the expense form opens pre-filled with (e.g. from a plan activity's "add expense" shortcut)
+export type ExpenseDraft = Pick<ExpenseItem, 'name' | 'date' | 'time' | 'category' | 'itineraryItemId'>;
+
 interface ToolViewProps {
+  tripId: string;
   expenses: ExpenseItem[];
+  itinerary: ItineraryItem[];
+  draft?: ExpenseDraft | null;
+  onDraftUsed?: () => void;
   setExpenses?: React.Dispatch<React.SetStateAction<ExpenseItem[]>>; 
   onAdd: (item: ExpenseItem) => void;
+  onUpdate: (item: ExpenseItem) => void;
   onDelete: (id: string) => void;
   tripUsers: string[];
+  // Travel dates per passenger: new expenses default to splitting among whoever is present that day,
+  // and hotel stays are shown split by nights (as on the Settle tab)
+  profiles: Record<string, MemberProfile>;
+  trip: Trip;
   exchangeRate: number;
-  onRateChange: (rate: number) => void;
+  rateState: RateState;
+  onRateChange: (from: string, to: string, rate: number) => void;
+  onRefreshRates: () => void;
+  // Group limits; the form warns when the expense being entered breaks one
+  budget: TripBudget;
+  // Store a receipt image; resolves to the reference kept in ExpenseItem.receipt
+  onSaveReceipt: (id: string, dataUrl: string) => Promise<string>;
 }
 
-const PriceDisplay: React.FC<{ amount: number, rate: number }> = ({ amount, rate }) => {
+const CONFLICT_FIELDS: ConflictField[] = [
+  { key: 'name', label: 'Item' },
+  { key: 'cost', label: 'Cost', format: (v) => Number(v || 0).toLocaleString() },
+  { key: 'currency', label: 'Currency' },
+  { key: 'payer', label: 'Payer' },
+  { key: 'payers', label: 'Paid', format: (v) => v ? Object.entries(v as Record<string, number>).map(([name, n]) => `${name} ${n}`).join(', ') : '—' },
+  { key: 'splitBy', label: 'Split' },
+  { key: 'splitMode', label: 'Mode' },
+  { key: 'lineItems', label: 'Lines', format: (v) => v ? (v as ExpenseLineItem[]).map(line => `${line.name} ${line.cost} (${line.splitBy.join('/')})`).join(', ') : '—' },
+  { key: 'date', label: 'Date' },
+  { key: 'category', label: 'Type' },
+  { key: 'checkOut', label: 'Check-out' },
+  { key: 'splitWeights', label: 'Parts', format: (v) => v ? Object.entries(v as Record<string, number>).map(([name, n]) => `${name} ${n}`).join(', ') : '—' },
+];
+
+type GroupBy = 'none' | 'day' | 'category';
+
+// A line of the itemized editor, with the amount as typed
+type LineInput = { id: string; name: string; cost: string; splitBy: string[] };
+
+const createLineId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Payer select value that opens the per-person "who paid how much" inputs
+const MULTIPLE_PAYERS = '__multiple__';
+
+// Shows the cost as paid; press and hold for its value in TWD (or KRW for TWD expenses) at the locked rate
+const PriceDisplay: React.FC<{ item: ExpenseItem, rate: number }> = ({ item, rate }) => {
   const [showTwd, setShowTwd] = useState(false);
   const handleStart = () => setShowTwd(true);
   const handleEnd = () => setShowTwd(false);
-  const twdAmount = Math.round(amount * rate);
+  const currency = item.currency || BASE_CURRENCY;
+  const converted = currency === 'TWD' ? formatMoney(toBase(item)) : formatMoney(toBase(item) * rate, 'TWD');
 
   return (
     <span 
@@ -40,45 +100,108 @@ const PriceDisplay: React.FC<{ amount: number, rate: number }> = ({ amount, rate
       onTouchStart={handleStart}
       onTouchEnd={handleEnd}
     >
-      {showTwd ? `NT$${twdAmount.toLocaleString()}` : `₩${amount.toLocaleString()}`}
+      {showTwd ? converted : formatMoney(item.cost, currency)}
     </span>
   );
 };
 
-export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, tripUsers, exchangeRate, onRateChange }) => {
+export const ToolView: React.FC<ToolViewProps> = ({ tripId, expenses, itinerary, draft, onDraftUsed, onAdd, onUpdate, onDelete, tripUsers, profiles, trip, exchangeRate, rateState, onRateChange, onRefreshRates, budget, onSaveReceipt }) => {
+  const { rates } = rateState;
+  const flightKey = tripStorageKey(TRIP_EXTRA_KEYS.flight, tripId);
+  const hotelKey = tripStorageKey(TRIP_EXTRA_KEYS.hotel, tripId);
+  const isDefaultTrip = tripId === DEFAULT_TRIP.id;
+
   const [flight, setFlight] = useState<FlightData>(() => {
-    const saved = localStorage.getItem('seoul-tool-flight');
-    return saved ? JSON.parse(saved) : { code: 'KE692', date: '01/16', route: 'TPE -> ICN' };
+    const saved = localStorage.getItem(flightKey);
+    if (saved) return JSON.parse(saved);
+    return isDefaultTrip ? { code: 'KE692', date: '01/16', route: 'TPE -> ICN' } : { code: '---', date: '', route: '' };
   });
 
   const [hotel, setHotel] = useState<HotelData>(() => {
-    const saved = localStorage.getItem('seoul-tool-hotel');
-    return saved ? JSON.parse(saved) : { name: '明洞天空花園飯店', checkIn: '15:00', address: '首爾特別市中區明洞9街27' };
+    const saved = localStorage.getItem(hotelKey);
+    if (saved) return JSON.parse(saved);
+    return isDefaultTrip ? { name: '明洞天空花園飯店', checkIn: '15:00', address: '首爾特別市中區明洞9街27' } : { name: '---', checkIn: '', address: '' };
   });
 
   const [newItemName, setNewItemName] = useState('');
   const [newItemCost, setNewItemCost] = useState('');
+  // Currency of the amount being typed; sticks between entries since most of a day is spent in one
+  const [newItemCurrency, setNewItemCurrency] = useState(BASE_CURRENCY);
+  // When and on what it was spent. The date also sticks, for catching up on a past day's receipts.
+  const [newItemDate, setNewItemDate] = useState(() => toLocalDate());
+  const [newItemTime, setNewItemTime] = useState(() => toLocalTime());
+  const [newItemCategory, setNewItemCategory] = useState<Category>('other');
+  // Hotel stays: last day (check-out); empty = trip end
+  const [newItemCheckOut, setNewItemCheckOut] = useState('');
+  // Rates recorded on a past expense date; null for today or when no table from then was saved
+  const [dayQuote, setDayQuote] = useState<RateQuote | null>(null);
+  useEffect(() => {
+    setDayQuote(null);
+    if (newItemDate >= toLocalDate()) return;
+    let isCurrent = true;
+    getRatesForDay(newItemDate)
+      .then(quote => { if (isCurrent) setDayQuote(quote); })
+      .catch(e => console.warn('Could not read rate history', e));
+    return () => { isCurrent = false; };
+  }, [newItemDate]);
+  // A back-dated expense locks the rate of its own day when that day's table covers the currency
+  const { rates: lockRates, day: lockDay } = getLockRates(newItemCurrency, rates, dayQuote);
+  const [linkedPlanId, setLinkedPlanId] = useState('');
+  // Receipt on the form: a fresh photo (data URL) or the stored reference of the expense being edited
+  const [receiptImage, setReceiptImage] = useState<string | null>(null);
+  const [receiptItems, setReceiptItems] = useState<ParsedReceipt['lineItems']>([]);
+  const [receiptStatus, setReceiptStatus] = useState<'idle' | 'reading' | 'done' | 'failed'>('idle');
+  const [viewingReceipt, setViewingReceipt] = useState<{ receipt: string; title: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImportingCsv, setIsImportingCsv] = useState(false);
+  const receiptInputRef = React.useRef<HTMLInputElement>(null);
   const [selectedPayer, setSelectedPayer] = useState('Me');
+  // Raw per-person paid amounts when several people paid (null = one payer covered it all)
+  const [payerInputs, setPayerInputs] = useState<Record<string, string> | null>(null);
+  // Expense being edited in the form (null = adding a new one)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingItem = editingId ? expenses.find(e => e.id === editingId) || null : null;
+  const formRef = React.useRef<HTMLDivElement>(null);
+
   // New: Split selection
   const [selectedSplit, setSelectedSplit] = useState<string[]>(tripUsers); 
-  // We sync selectedSplit with tripUsers whenever tripUsers changes (and initially)
+  // How the cost is divided, and the raw per-person inputs for the non-equal modes
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [splitInputs, setSplitInputs] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState('');
+  // Itemized mode: receipt lines, and tax/service shared on top of them
+  const [lineInputs, setLineInputs] = useState<LineInput[]>([]);
+  const [taxInput, setTaxInput] = useState('');
+  const [serviceInput, setServiceInput] = useState('');
+  const [extrasAllocation, setExtrasAllocation] = useState<'proportional' | 'equal'>('proportional');
+  // Set once the split is picked by hand (people or mode); the default then stops following the date
+  const [isSplitTouched, setIsSplitTouched] = useState(false);
+  // Default the split to everyone present on the expense date. Keyed on the names themselves, so
+  // unrelated trip updates (a new profiles object on every snapshot) leave the selection alone.
+  const presentUsers = getPresentUsers(tripUsers, profiles, newItemDate);
+  const presentKey = presentUsers.join('\n');
   useEffect(() => {
-     // Default to selecting all users when the list changes
-     if (tripUsers.length > 0) {
-        setSelectedSplit(tripUsers);
+     if (presentUsers.length > 0 && !editingId && !isSplitTouched) {
+        setSelectedSplit(presentUsers);
      }
-  }, [tripUsers.length]);
+  }, [presentKey]);
 
 
   const [isEmergencyOpen, setIsEmergencyOpen] = useState(false);
   const [activeModal, setActiveModal] = useState<'flight' | 'hotel' | null>(null);
   const [isExpenseListExpanded, setIsExpenseListExpanded] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  // History row showing its per-person breakdown
+  const [expandedExpenseId, setExpandedExpenseId] = useState<string | null>(null);
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
   const [isEditingRate, setIsEditingRate] = useState(false);
   const [tempRate, setTempRate] = useState(exchangeRate.toString());
+  // Pair shown on the rate card
+  const [ratePair, setRatePair] = useState<{ from: string; to: string }>({ from: BASE_CURRENCY, to: 'TWD' });
+  const pairRate = getPairRate(ratePair.from, ratePair.to, rates);
 
-  useEffect(() => localStorage.setItem('seoul-tool-flight', JSON.stringify(flight)), [flight]);
-  useEffect(() => localStorage.setItem('seoul-tool-hotel', JSON.stringify(hotel)), [hotel]);
+  useEffect(() => localStorage.setItem(flightKey, JSON.stringify(flight)), [flight, flightKey]);
+  useEffect(() => localStorage.setItem(hotelKey, JSON.stringify(hotel)), [hotel, hotelKey]);
 
   const handleOpenMap = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -87,31 +210,266 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
     window.open(`https://www.google.com/maps/search/?api=1&query=${query}`, '_blank');
   };
 
-  const handleAddExpense = () => {
-    if (!newItemName || !newItemCost) return;
-    const cost = parseInt(newItemCost.replace(/[^0-9]/g, ''));
-    if (isNaN(cost)) return;
-    if (selectedSplit.length === 0) {
-        alert("Please select at least one person to split the bill.");
-        return;
+  const resetForm = () => {
+    setNewItemName('');
+    setNewItemCost('');
+    setNewItemTime(toLocalTime());
+    setNewItemCategory('other');
+    setNewItemCheckOut('');
+    setLinkedPlanId('');
+    setReceiptImage(null);
+    setReceiptItems([]);
+    setReceiptStatus('idle');
+    setEditingId(null);
+    // Reset split to everyone present that day, equally
+    setSelectedSplit(presentUsers);
+    setIsSplitTouched(false);
+    setSplitMode('equal');
+    setSplitInputs({});
+    setLineInputs([]);
+    setTaxInput('');
+    setServiceInput('');
+    setExtrasAllocation('proportional');
+    setPayerInputs(null);
+    setFormError('');
+  };
+
+  const parsedWeights = (): Record<string, number> => {
+    const weights: Record<string, number> = {};
+    selectedSplit.forEach(name => {
+      const value = parseFloat(splitInputs[name] ?? '');
+      if (!isNaN(value)) weights[name] = value;
+    });
+    return weights;
+  };
+
+  const parsedLines = (): ExpenseLineItem[] => lineInputs.map(line => ({
+    id: line.id,
+    name: line.name.trim(),
+    cost: roundToCurrency(parseFloat(line.cost), newItemCurrency),
+    splitBy: line.splitBy
+  }));
+
+  const parsedExtras = () => ({
+    tax: roundToCurrency(parseFloat(taxInput) || 0, newItemCurrency),
+    serviceCharge: roundToCurrency(parseFloat(serviceInput) || 0, newItemCurrency)
+  });
+
+  const updateLine = (id: string, patch: Partial<LineInput>) => {
+    setLineInputs(prev => prev.map(line => line.id === id ? { ...line, ...patch } : line));
+    setFormError('');
+  };
+
+  const toggleLineUser = (id: string, user: string) => {
+    const line = lineInputs.find(l => l.id === id);
+    if (!line) return;
+    updateLine(id, { splitBy: line.splitBy.includes(user) ? line.splitBy.filter(u => u !== user) : [...line.splitBy, user] });
+  };
+
+  const addLine = (name = '', cost = '') => {
+    setLineInputs(prev => [...prev, { id: createLineId(), name, cost, splitBy: selectedSplit }]);
+    setFormError('');
+  };
+
+  const parsedPayments = (): Record<string, number> => {
+    const payments: Record<string, number> = {};
+    Object.entries(payerInputs || {}).forEach(([name, raw]) => {
+      const value = parseFloat(raw);
+      if (!isNaN(value) && value !== 0) payments[name] = roundToCurrency(value, newItemCurrency);
+    });
+    return payments;
+  };
+
+  const handlePayerChange = (value: string) => {
+    setFormError('');
+    if (value === MULTIPLE_PAYERS) {
+      // Start from the current payer covering everything
+      setPayerInputs({ [selectedPayer]: newItemCost });
+    } else {
+      setSelectedPayer(value);
+      setPayerInputs(null);
+    }
+  };
+
+  // Photo or upload of a receipt: attach it, then let Gemini prefill the form for review
+  const handleReceiptFile = async (file: File | undefined) => {
+    if (!file) return;
+    let dataUrl: string;
+    try {
+      dataUrl = await imageFileToDataUrl(file, 1600, 0.8);
+    } catch (e) {
+      setFormError('Could not read that image.');
+      return;
+    }
+    setReceiptImage(dataUrl);
+    setReceiptItems([]);
+    if (!isReceiptParsingAvailable()) return;
+
+    setReceiptStatus('reading');
+    const parsed = await parseReceipt(dataUrl);
+    if (!parsed) {
+      setReceiptStatus('failed');
+      return;
     }
+    if (parsed.merchant) setNewItemName(parsed.merchant);
+    if (parsed.total > 0) setNewItemCost(parsed.total.toString());
+    if (currencyOptions.includes(parsed.currency)) setNewItemCurrency(parsed.currency);
+    if (parsed.date && /^\d{4}-\d{2}-\d{2}$/.test(parsed.date)) setNewItemDate(parsed.date);
+    if (parsed.time && /^\d{2}:\d{2}$/.test(parsed.time)) setNewItemTime(parsed.time);
+    if (parsed.category) setNewItemCategory(parsed.category);
+    setReceiptItems(parsed.lineItems);
+    setReceiptStatus('done');
+    setFormError(currencyOptions.includes(parsed.currency) ? '' : `Receipt is in ${parsed.currency}, which has no rate yet. Pick a currency before saving.`);
+  };
 
-    const newItem: ExpenseItem = {
-      id: Date.now().toString(),
+  // The expense the form describes, or why it cannot be saved (null while there is no amount yet)
+  const buildExpenseFields = (): { fields: Omit<ExpenseItem, 'id'> } | { error: string } | null => {
+    if (!newItemCost) return null;
+    const cost = roundToCurrency(parseFloat(newItemCost.replace(/[^0-9.]/g, '')), newItemCurrency);
+    if (isNaN(cost)) return null;
+
+    const weights = parsedWeights();
+    const payments = payerInputs ? parsedPayments() : null;
+    const isItemized = splitMode === 'itemized';
+    const lines = isItemized ? parsedLines() : [];
+    const extras = parsedExtras();
+    const splitBy = isItemized ? getLineParticipants(lines) : selectedSplit;
+    const error = (payments && validatePayers(cost, payments, newItemCurrency))
+      || (isItemized && validateLineItems(cost, lines, extras.tax + extras.serviceCharge, newItemCurrency))
+      || validateSplit(splitMode, cost, splitBy, weights, newItemCurrency);
+    if (error) return { error };
+
+    const fields: Omit<ExpenseItem, 'id'> = {
       name: newItemName,
       cost,
-      payer: selectedPayer,
-      isShared: selectedSplit.length > 1, // Backward compatibility
-      splitBy: selectedSplit
+      // With several payers, the one who paid most stands in wherever a single name is shown
+      payer: payments ? Object.entries(payments).sort(([, a], [, b]) => b - a)[0][0] : selectedPayer,
+      ...(payments && Object.keys(payments).length > 1 ? { payers: payments } : {}),
+      isShared: splitBy.length > 1, // Backward compatibility
+      splitBy,
+      splitMode,
+      ...(splitMode !== 'equal' && !isItemized ? { splitWeights: weights } : {}),
+      ...(isItemized ? {
+        lineItems: lines,
+        extrasAllocation,
+        ...(extras.tax > 0 ? { tax: extras.tax } : {}),
+        ...(extras.serviceCharge > 0 ? { serviceCharge: extras.serviceCharge } : {})
+      } : {}),
+      currency: newItemCurrency,
+      // An edit keeps the rate it was entered at unless the currency itself changed
+      rateToBase: editingItem && (editingItem.currency || BASE_CURRENCY) === newItemCurrency
+        ? editingItem.rateToBase ?? 1
+        : rateToBaseFor(newItemCurrency, lockRates),
+      date: newItemDate,
+      time: newItemTime,
+      category: newItemCategory,
+      ...(newItemCategory === 'hotel' && newItemCheckOut ? { checkOut: newItemCheckOut } : {}),
+      ...(linkedPlanId ? { itineraryItemId: linkedPlanId } : {})
     };
-    
-    onAdd(newItem);
-    setNewItemName('');
-    setNewItemCost('');
-    // Reset split to everyone
-    setSelectedSplit(tripUsers);
+    return { fields };
   };
 
+  const handleSubmitExpense = async () => {
+    if (!newItemName || isSaving) return;
+    const built = buildExpenseFields();
+    if (!built) return;
+    if ('error' in built) {
+        setFormError(built.error);
+        return;
+    }
+    const { fields } = built;
+
+    const id = editingItem ? editingItem.id : Date.now().toString();
+
+    // A new photo is stored first (under a fresh name, so replacing a receipt never overwrites the old file)
+    let receipt = receiptImage;
+    if (receiptImage && receiptImage !== editingItem?.receipt) {
+      setIsSaving(true);
+      try {
+        receipt = await onSaveReceipt(`${id}-${Date.now()}`, receiptImage);
+      } catch (e) {
+        console.error("Saving receipt failed", e);
+        setFormError('Could not save the receipt image. Try again, or remove it to save without.');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
+    if (editingItem) {
+      onUpdate(applyExpenseEdit(editingItem, fields, receipt));
+    } else {
+      onAdd({ id, ...fields, ...(receipt ? { receipt } : {}) });
+    }
+    resetForm();
+  };
+
+  // Hotel stays split by nights stayed, the same shares the Settle tab charges
+  const withStays = (item: ExpenseItem) => splitByNights(item, profiles, trip);
+
+  const handleExportCsv = () => {
+    const csv = expensesToCsv(expenses.map(withStays), tripUsers, exchangeRate);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${toFileSlug(tripId)}-expenses.csv`);
+  };
+
+  const handleEditClick = (item: ExpenseItem, e?: React.MouseEvent) => {
+    if (e) e.stopPropagation();
+    setEditingId(item.id);
+    setNewItemName(item.name);
+    setNewItemCost(item.cost.toString());
+    setNewItemCurrency(item.currency || BASE_CURRENCY);
+    setNewItemDate(item.date || toLocalDate());
+    setNewItemTime(item.time || '');
+    setNewItemCategory(item.category || 'other');
+    setNewItemCheckOut(item.checkOut || '');
+    setLinkedPlanId(item.itineraryItemId || '');
+    setReceiptImage(item.receipt || null);
+    setReceiptItems([]);
+    setReceiptStatus('idle');
+    setSelectedPayer(item.payer);
+    setPayerInputs(item.payers ? Object.fromEntries(Object.entries(item.payers).map(([name, v]) => [name, v.toString()])) : null);
+    setSelectedSplit(item.splitBy);
+    setSplitMode(item.splitMode || 'equal');
+    setSplitInputs(Object.fromEntries(Object.entries(item.splitWeights || {}).map(([name, v]) => [name, v.toString()])));
+    setLineInputs((item.lineItems || []).map(line => ({ ...line, cost: line.cost.toString() })));
+    setTaxInput(item.tax ? item.tax.toString() : '');
+    setServiceInput(item.serviceCharge ? item.serviceCharge.toString() : '');
+    setExtrasAllocation(item.extrasAllocation || 'proportional');
+    setFormError('');
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleSplitModeChange = (mode: SplitMode) => {
+    setSplitMode(mode);
+    setIsSplitTouched(true);
+    setFormError('');
+    // Shares start at 1 each; percentages and amounts are typed in
+    setSplitInputs(mode === 'shares' ? Object.fromEntries(selectedSplit.map(name => [name, '1'])) : {});
+    // Itemizing starts from the scanned receipt's lines, if there are any
+    if (mode === 'itemized' && lineInputs.length === 0 && receiptItems.length > 0) {
+      setLineInputs(receiptItems.map(line => ({ id: createLineId(), name: line.name, cost: line.amount.toString(), splitBy: selectedSplit })));
+    }
+  };
+
+  // Open the form pre-filled from a plan activity
+  useEffect(() => {
+    if (!draft) return;
+    resetForm();
+    setNewItemName(draft.name);
+    // The split follows the new date (the form was just reset)
+    if (draft.date) setNewItemDate(draft.date);
+    if (draft.time) setNewItemTime(draft.time);
+    setNewItemCategory(draft.category || 'other');
+    setLinkedPlanId(draft.itineraryItemId || '');
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    onDraftUsed?.();
+  }, [draft]);
+
+  // The expense was deleted (here or by a friend) while it was open in the form
+  useEffect(() => {
+    if (editingId && !editingItem) resetForm();
+  }, [editingId, editingItem]);
+
   const handleDeleteClick = (id: string, e?: React.MouseEvent) => {
     if (e) e.stopPropagation();
     setDeleteTargetId(id);
@@ -119,6 +477,7 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
 
   const confirmDelete = () => {
      if (deleteTargetId) {
+        if (deleteTargetId === editingId) resetForm();
         onDelete(deleteTargetId);
         setDeleteTargetId(null);
      }
@@ -127,14 +486,14 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
   const saveRate = () => {
       const r = parseFloat(tempRate);
       if (!isNaN(r) && r > 0) {
-          onRateChange(r);
+          onRateChange(ratePair.from, ratePair.to, r);
           setIsEditingRate(false);
       }
   };
 
   const totalCostKRW = expenses
     .filter(e => e.splitBy && e.splitBy.length > 1) // Only count "Shared" expenses in total
-    .reduce((sum, item) => sum + item.cost, 0);
+    .reduce((sum, item) => sum + toBase(item), 0);
 
   const getPayerColor = (name: string) => {
     if (name === 'Me') return 'bg-gray-800 text-white';
@@ -144,21 +503,122 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
     return colors[Math.abs(hash) % colors.length];
   };
 
+  // People offered in the form: the trip list, plus anyone on the expense being edited who has since left
+  const formUsers = editingItem
+    ? Array.from(new Set([...tripUsers, editingItem.payer, ...Object.keys(editingItem.payers || {}), ...editingItem.splitBy]))
+    : tripUsers;
+
+  // Plan activities offered for linking: the ones on the expense's day, plus the current link
+  const linkablePlans = itinerary
+    .filter(i => i.date === newItemDate || i.id === linkedPlanId)
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  // History, newest first, optionally grouped with a KRW subtotal per group
+  const sortedExpenses = groupBy === 'day'
+    ? expenses.slice().sort((a, b) => `${b.date || ''} ${b.time || ''}`.localeCompare(`${a.date || ''} ${a.time || ''}`))
+    : expenses.slice().reverse();
+  const expenseGroups: { key: string; label: string; items: ExpenseItem[] }[] = [];
+  sortedExpenses.forEach(item => {
+    const key = groupBy === 'day' ? item.date || '' : groupBy === 'category' ? item.category || 'other' : '';
+    let group = expenseGroups.find(g => g.key === key);
+    if (!group) {
+      const label = groupBy === 'day' ? (key ? key.replace(/-/g, '.') : 'NO DATE') : getCategoryLabel(key as Category);
+      group = { key, label, items: [] };
+      expenseGroups.push(group);
+    }
+    group.items.push(item);
+  });
+
+  const itemizedRemainder = splitMode === 'itemized'
+    ? (parseFloat(newItemCost) || 0)
+      - lineInputs.reduce((sum, line) => sum + (parseFloat(line.cost) || 0), 0)
+      - (parseFloat(taxInput) || 0) - (parseFloat(serviceInput) || 0)
+    : null;
+
+  // Limits this expense would break, checked as it is typed (an edit replaces the stored version)
+  const builtExpense = buildExpenseFields();
+  const budgetWarnings = builtExpense && 'fields' in builtExpense
+    ? getBudgetWarnings(expenses.map(withStays), withStays({ id: editingItem ? editingItem.id : '', ...builtExpense.fields }), budget, tripUsers, getCategoryLabel)
+    : [];
+
+  const paymentsRemainder = payerInputs
+    ? (parseFloat(newItemCost) || 0) - Object.values(parsedPayments()).reduce((a, b) => a + b, 0)
+    : null;
+
+  const splitRemainder = getSplitRemainder(splitMode, parseFloat(newItemCost) || 0, selectedSplit, parsedWeights());
+
+  // Currencies we have a rate for, plus the one on the expense being edited
+  const currencyOptions = availableCurrencies(rates).map(c => c.code);
+  if (!currencyOptions.includes(newItemCurrency)) currencyOptions.push(newItemCurrency);
+  const formRateToBase = editingItem && (editingItem.currency || BASE_CURRENCY) === newItemCurrency
+    ? editingItem.rateToBase ?? 1
+    : rateToBaseFor(newItemCurrency, lockRates);
+
+  // Per-line detail of an itemized expense, and what each person ends up owing
+  const renderBreakdown = (item: ExpenseItem) => {
+    const currency = item.currency || BASE_CURRENCY;
+    const stay = withStays(item);
+    const shares = getExpenseShares(stay);
+    const row = (label: React.ReactNode, amount: number, key: string, muted = false) => (
+      <div key={key} className={`flex justify-between gap-2 text-[9px] font-bold ${muted ? 'text-gray-400' : 'text-gray-600'}`}>
+        <span className="truncate">{label}</span>
+        <span className="font-mono shrink-0">{formatMoney(amount, currency)}</span>
+      </div>
+    );
+    return (
+      <div className="px-3 pb-2.5 pt-2 mx-2.5 mb-2 border-t border-dashed border-gray-200 space-y-1.5">
+        {item.splitMode === 'itemized' && item.lineItems && item.lineItems.length > 0 && (
+          <div className="space-y-0.5">
+            {item.lineItems.map(line => row(<>{line.name || 'Item'} <span className="text-gray-400">• {line.splitBy.join(', ')}</span></>, line.cost, line.id))}
+            {!!item.tax && row(`Tax${item.extrasAllocation === 'equal' ? ' (evenly)' : ''}`, item.tax, 'tax', true)}
+            {!!item.serviceCharge && row(`Service${item.extrasAllocation === 'equal' ? ' (evenly)' : ''}`, item.serviceCharge, 'service', true)}
+          </div>
+        )}
+        {stay !== item && (
+          <div className="text-[9px] font-bold text-gray-400">
+            By nights stayed: {Object.entries(stay.splitWeights || {}).map(([name, nights]) => `${name} ${nights}`).join(', ')}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(shares).map(([name, amount]) => (
+            <span key={name} className={`px-1.5 py-0.5 rounded text-[8px] font-bold ${getPayerColor(name)}`}>
+              {name} {formatMoney(amount, currency)}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const toggleSplitUser = (user: string) => {
       if (selectedSplit.includes(user)) {
           setSelectedSplit(prev => prev.filter(u => u !== user));
       } else {
           setSelectedSplit(prev => [...prev, user]);
+          if (splitMode === 'shares' && !splitInputs[user]) setSplitInputs(prev => ({ ...prev, [user]: '1' }));
       }
+      setIsSplitTouched(true);
+      setFormError('');
   };
 
   return (
     <div className="px-5 space-y-5">
       
+      <ConflictResolver tripId={tripId} collection="expenses" fields={CONFLICT_FIELDS} />
+
       {/* Rate Setting */}
-      <div className="bg-[#F1F8E9] px-4 py-3 rounded-2xl border border-[#DCEDC8] border-dashed flex justify-between items-center">
-         <div>
-            <div className="text-[10px] font-bold text-[#689F38] uppercase tracking-wider">Exchange Rate (KRW → TWD)</div>
+      <div className="bg-[#F1F8E9] px-4 py-3 rounded-2xl border border-[#DCEDC8] border-dashed flex justify-between items-center gap-2">
+         <div className="min-w-0">
+            <div className="text-[10px] font-bold text-[#689F38] uppercase tracking-wider flex items-center gap-1">
+                Exchange Rate
+                <select value={ratePair.from} onChange={e => { setRatePair({ ...ratePair, from: e.target.value }); setIsEditingRate(false); }} className="bg-transparent font-black outline-none">
+                    {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+                <button onClick={() => { setRatePair({ from: ratePair.to, to: ratePair.from }); setIsEditingRate(false); }} className="hover:text-green-700">⇄</button>
+                <select value={ratePair.to} onChange={e => { setRatePair({ ...ratePair, to: e.target.value }); setIsEditingRate(false); }} className="bg-transparent font-black outline-none">
+                    {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
             {isEditingRate ? (
                 <div className="flex items-center gap-2 mt-1">
                     <input 
@@ -170,14 +630,18 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
                     <button onClick={saveRate} className="text-[10px] bg-green-600 text-white px-2 py-1 rounded font-bold">OK</button>
                 </div>
             ) : (
-                <div onClick={() => { setTempRate(exchangeRate.toString()); setIsEditingRate(true); }} className="text-sm font-black text-gray-700 cursor-pointer flex items-center gap-1 group">
-                    1 KRW ≈ {exchangeRate} TWD <Edit2 size={10} className="opacity-0 group-hover:opacity-100 text-green-500" />
+                <div onClick={() => { setTempRate(pairRate !== null ? String(Number(pairRate.toPrecision(4))) : ''); setIsEditingRate(true); }} className="text-sm font-black text-gray-700 cursor-pointer flex items-center gap-1 group">
+                    1 {ratePair.from} ≈ {pairRate !== null ? Number(pairRate.toPrecision(4)).toLocaleString() : '?'} {ratePair.to} <Edit2 size={10} className="opacity-0 group-hover:opacity-100 text-green-500" />
                 </div>
             )}
+            <div className="text-[9px] text-gray-400 font-bold truncate">
+                {rateState.updatedAt ? `Updated ${new Date(rateState.updatedAt).toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}` : 'Never updated'} • {getProviderLabel(rateState.source)}
+                {rateState.error && <span className="text-orange-500"> • Offline, using saved rates</span>}
+            </div>
          </div>
-         <div className="text-right hidden sm:block">
-            <div className="text-[9px] text-gray-400 font-bold italic">Auto-updated from API</div>
-         </div>
+         <button onClick={onRefreshRates} disabled={rateState.isRefreshing} className="shrink-0 p-2 bg-white text-[#689F38] rounded-lg border border-[#DCEDC8] active:scale-90 transition-transform">
+            <RotateCw size={14} className={rateState.isRefreshing ? 'animate-spin' : ''} />
+         </button>
       </div>
 
       {/* ... Flight and Hotel Grids (Unchanged visually) ... */}
@@ -239,6 +703,18 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
         </div>
       )}
 
+      <ReceiptViewer receipt={viewingReceipt?.receipt || null} title={viewingReceipt?.title} onClose={() => setViewingReceipt(null)} />
+      {isImportingCsv && (
+        <CsvImportModal
+          expenses={expenses}
+          tripUsers={tripUsers}
+          rates={rates}
+          defaultPayer={selectedPayer}
+          onImport={(items) => items.forEach(onAdd)}
+          onClose={() => setIsImportingCsv(false)}
+        />
+      )}
+
       <ConfirmModal isOpen={!!deleteTargetId} onClose={() => setDeleteTargetId(null)} onConfirm={confirmDelete} title="DELETE EXPENSE?" message="Are you sure you want to remove this transaction?" />
 
       {/* Expense Tracker */}
@@ -246,22 +722,64 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
         <div className="p-5 pb-2">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xs font-black text-[#00A86B] tracking-widest uppercase flex items-center gap-1.5"><Wallet size={14} /> SHARED_WALLET</h2>
-              <div className="text-right"><div className="text-2xl font-black text-gray-800 font-mono tracking-tighter">₩{totalCostKRW.toLocaleString()}</div></div>
+              <div className="text-right"><div className="text-2xl font-black text-gray-800 font-mono tracking-tighter">{formatMoney(totalCostKRW)}</div></div>
             </div>
             
-            <div className="space-y-3 mb-4">
+            <div ref={formRef} className="space-y-3 mb-4">
+              {editingItem && (
+                <div className="flex items-center justify-between bg-blue-50 border border-blue-100 px-3 py-2 rounded-xl">
+                  <span className="text-[10px] font-bold text-blue-600 truncate flex items-center gap-1"><Edit2 size={10} /> Editing "{editingItem.name}"</span>
+                  <button onClick={resetForm} className="text-blue-400 hover:text-blue-600"><X size={14} /></button>
+                </div>
+              )}
+
+              {/* Receipt */}
+              <input ref={receiptInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={e => { handleReceiptFile(e.target.files?.[0]); e.target.value = ''; }} />
+              {receiptImage ? (
+                <div className="bg-gray-50 p-2 rounded-xl space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => setViewingReceipt({ receipt: receiptImage, title: newItemName || 'Receipt' })} className="shrink-0 w-10 h-10 rounded-lg bg-white border border-gray-200 flex items-center justify-center overflow-hidden">
+                      {receiptImage.startsWith('data:') ? <img src={receiptImage} alt="Receipt" className="w-full h-full object-cover" /> : <Receipt size={16} className="text-gray-400" />}
+                    </button>
+                    <div className="flex-1 min-w-0 text-[9px] font-bold text-gray-500 leading-tight">
+                      {receiptStatus === 'reading' ? <span className="flex items-center gap-1 text-[#00A86B]"><Loader2 size={10} className="animate-spin" /> Reading receipt…</span>
+                        : receiptStatus === 'done' ? 'Filled in from the receipt. Check before saving.'
+                        : receiptStatus === 'failed' ? <span className="text-orange-500">Couldn't read it. Fill in the form by hand.</span>
+                        : 'Receipt attached'}
+                    </div>
+                    <button onClick={() => receiptInputRef.current?.click()} className="p-1.5 rounded-md text-gray-400 hover:bg-white"><Camera size={14} /></button>
+                    <button onClick={() => { setReceiptImage(null); setReceiptItems([]); setReceiptStatus('idle'); }} className="p-1.5 rounded-md text-gray-400 hover:bg-white hover:text-red-500"><X size={14} /></button>
+                  </div>
+                  {receiptItems.length > 0 && (
+                    <div className="bg-white rounded-lg p-2 space-y-0.5 max-h-24 overflow-y-auto no-scrollbar">
+                      {receiptItems.map((line, idx) => (
+                        <div key={idx} className="flex justify-between gap-2 text-[9px] font-bold text-gray-500">
+                          <span className="truncate">{line.name}</span>
+                          <span className="font-mono shrink-0">{formatMoney(line.amount, newItemCurrency)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <button onClick={() => receiptInputRef.current?.click()} className="w-full py-2 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 text-[10px] font-bold flex items-center justify-center gap-1.5 hover:border-[#00A86B] hover:text-[#00A86B] transition-colors">
+                  <Camera size={12} /> {isReceiptParsingAvailable() ? 'SCAN RECEIPT' : 'ATTACH RECEIPT'}
+                </button>
+              )}
+
               {/* Who Paid? */}
               <div className="flex items-center gap-2">
                  <div className="relative w-1/3">
                     <div className="absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none"><User size={12} className="text-gray-400"/></div>
-                    <select value={selectedPayer} onChange={(e) => setSelectedPayer(e.target.value)} className="w-full p-3 pl-7 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700 appearance-none">
-                      {tripUsers.map(u => <option key={u} value={u}>{u}</option>)}
+                    <select value={payerInputs ? MULTIPLE_PAYERS : selectedPayer} onChange={(e) => handlePayerChange(e.target.value)} className="w-full p-3 pl-7 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700 appearance-none">
+                      {formUsers.map(u => <option key={u} value={u}>{u}</option>)}
+                      <option value={MULTIPLE_PAYERS}>Several…</option>
                     </select>
                     <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none"/>
                  </div>
                  <div className="flex-1 bg-gray-50 p-2 rounded-xl flex items-center gap-2 overflow-x-auto no-scrollbar">
                      <span className="text-[9px] font-bold text-gray-400 uppercase shrink-0">Split:</span>
-                     {tripUsers.map(u => {
+                     {formUsers.map(u => {
                          const isSelected = selectedSplit.includes(u);
                          return (
                             <button 
@@ -276,15 +794,200 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
                  </div>
               </div>
 
+              {/* Who paid how much (several payers) */}
+              {payerInputs && (
+                <div className="bg-gray-50 p-2 rounded-xl space-y-1">
+                  <div className="text-[9px] font-bold text-gray-400 uppercase">Paid:</div>
+                  {formUsers.map(name => (
+                    <div key={name} className="flex items-center gap-2">
+                      <span className={`w-16 shrink-0 truncate px-1.5 py-0.5 rounded text-[9px] font-bold ${getPayerColor(name)}`}>{name}</span>
+                      <input
+                        type="number"
+                        value={payerInputs[name] ?? ''}
+                        onChange={e => { setPayerInputs(prev => ({ ...prev, [name]: e.target.value })); setFormError(''); }}
+                        placeholder="0"
+                        className="flex-1 min-w-0 p-1.5 rounded-lg bg-white border-2 border-transparent focus:border-[#00A86B] outline-none text-[10px] font-bold text-gray-700"
+                      />
+                      <span className="w-8 text-[9px] font-bold text-gray-400">{getCurrency(newItemCurrency).symbol}</span>
+                    </div>
+                  ))}
+                  {paymentsRemainder !== null && (
+                    <div className={`text-right text-[9px] font-bold ${Math.abs(paymentsRemainder) < 0.01 ? 'text-[#00A86B]' : 'text-orange-500'}`}>
+                      {Math.abs(paymentsRemainder) < 0.01
+                        ? 'Adds up ✓'
+                        : `${paymentsRemainder > 0 ? 'Unpaid' : 'Over'}: ${formatMoney(Math.abs(paymentsRemainder), newItemCurrency)}`}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Split Mode */}
+              <div className="bg-gray-50 p-2 rounded-xl space-y-2">
+                <div className="grid grid-cols-5 gap-1">
+                  {SPLIT_MODES.map(mode => (
+                    <button
+                      key={mode.id}
+                      onClick={() => handleSplitModeChange(mode.id)}
+                      className={`py-1 rounded text-[9px] font-black transition-colors ${splitMode === mode.id ? 'bg-[#00A86B] text-white shadow-sm' : 'bg-white text-gray-400'}`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                {splitMode === 'itemized' && (
+                  <div className="space-y-1.5">
+                    {lineInputs.map(line => (
+                      <div key={line.id} className="bg-white rounded-lg p-1.5 space-y-1">
+                        <div className="flex items-center gap-1.5">
+                          <input
+                            value={line.name}
+                            onChange={e => updateLine(line.id, { name: e.target.value })}
+                            placeholder="Item"
+                            className="flex-1 min-w-0 p-1 rounded bg-gray-50 outline-none text-[10px] font-bold text-gray-700"
+                          />
+                          <input
+                            type="number"
+                            value={line.cost}
+                            onChange={e => updateLine(line.id, { cost: e.target.value })}
+                            placeholder="0"
+                            className="w-20 p-1 rounded bg-gray-50 outline-none text-[10px] font-bold text-gray-700 text-right"
+                          />
+                          <button onClick={() => setLineInputs(prev => prev.filter(l => l.id !== line.id))} className="p-1 text-gray-300 hover:text-red-500"><X size={12} /></button>
+                        </div>
+                        <div className="flex gap-1 overflow-x-auto no-scrollbar">
+                          {formUsers.map(u => (
+                            <button
+                              key={u}
+                              onClick={() => toggleLineUser(line.id, u)}
+                              className={`shrink-0 px-1.5 py-0.5 rounded text-[8px] font-bold border border-transparent ${line.splitBy.includes(u) ? getPayerColor(u) : 'text-gray-300 bg-white border-gray-100'}`}
+                            >
+                              {u}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    <button onClick={() => addLine()} className="w-full py-1 rounded-lg border border-dashed border-gray-300 text-[9px] font-bold text-gray-400 flex items-center justify-center gap-1"><Plus size={10} /> LINE</button>
+                    <div className="flex items-center gap-1.5">
+                      <span className="w-12 text-[9px] font-bold text-gray-400">TAX</span>
+                      <input type="number" value={taxInput} onChange={e => { setTaxInput(e.target.value); setFormError(''); }} placeholder="0" className="flex-1 min-w-0 p-1 rounded bg-white outline-none text-[10px] font-bold text-gray-700 text-right" />
+                      <span className="w-12 text-[9px] font-bold text-gray-400 text-right">SERVICE</span>
+                      <input type="number" value={serviceInput} onChange={e => { setServiceInput(e.target.value); setFormError(''); }} placeholder="0" className="flex-1 min-w-0 p-1 rounded bg-white outline-none text-[10px] font-bold text-gray-700 text-right" />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex gap-1">
+                        {(['proportional', 'equal'] as const).map(mode => (
+                          <button key={mode} onClick={() => setExtrasAllocation(mode)} className={`px-1.5 py-0.5 rounded text-[8px] font-black ${extrasAllocation === mode ? 'bg-[#00A86B] text-white' : 'bg-white text-gray-400'}`}>
+                            {mode === 'proportional' ? 'BY ORDER' : 'EVENLY'}
+                          </button>
+                        ))}
+                      </div>
+                      {itemizedRemainder !== null && (
+                        <div className={`text-[9px] font-bold ${Math.abs(itemizedRemainder) < 0.01 ? 'text-[#00A86B]' : 'text-orange-500'}`}>
+                          {Math.abs(itemizedRemainder) < 0.01
+                            ? 'Adds up ✓'
+                            : `${itemizedRemainder > 0 ? 'Left' : 'Over'}: ${formatMoney(Math.abs(itemizedRemainder), newItemCurrency)}`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {splitMode !== 'equal' && splitMode !== 'itemized' && selectedSplit.length > 0 && (
+                  <div className="space-y-1">
+                    {selectedSplit.map(name => (
+                      <div key={name} className="flex items-center gap-2">
+                        <span className={`w-16 shrink-0 truncate px-1.5 py-0.5 rounded text-[9px] font-bold ${getPayerColor(name)}`}>{name}</span>
+                        <input
+                          type="number"
+                          value={splitInputs[name] ?? ''}
+                          onChange={e => { setSplitInputs(prev => ({ ...prev, [name]: e.target.value })); setFormError(''); }}
+                          placeholder="0"
+                          className="flex-1 min-w-0 p-1.5 rounded-lg bg-white border-2 border-transparent focus:border-[#00A86B] outline-none text-[10px] font-bold text-gray-700"
+                        />
+                        <span className="w-8 text-[9px] font-bold text-gray-400">{splitMode === 'shares' ? 'x' : splitMode === 'percent' ? '%' : getCurrency(newItemCurrency).symbol}</span>
+                      </div>
+                    ))}
+                    {splitRemainder !== null && (
+                      <div className={`text-right text-[9px] font-bold ${Math.abs(splitRemainder) < 0.01 ? 'text-[#00A86B]' : 'text-orange-500'}`}>
+                        {Math.abs(splitRemainder) < 0.01
+                          ? 'Adds up ✓'
+                          : `${splitRemainder > 0 ? 'Left' : 'Over'}: ${splitMode === 'percent' ? `${Math.abs(splitRemainder).toLocaleString()}%` : formatMoney(Math.abs(splitRemainder), newItemCurrency)}`}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <input value={newItemName} onChange={e => setNewItemName(e.target.value)} placeholder="Item Name (項目名稱)" className="w-full p-3 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-xs font-bold text-gray-700" />
+
+              {/* When / what kind / which plan */}
+              <div className="flex gap-2">
+                <input type="date" value={newItemDate} onChange={e => setNewItemDate(e.target.value)} className="flex-1 min-w-0 p-2 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700" />
+                <input type="time" value={newItemTime} onChange={e => setNewItemTime(e.target.value)} className="w-24 p-2 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700" />
+              </div>
+              <div className="grid grid-cols-6 gap-1">
+                {EXPENSE_CATEGORIES.map(c => (
+                  <button
+                    key={c.id}
+                    onClick={() => setNewItemCategory(c.id)}
+                    className={`py-1.5 rounded-lg text-[9px] font-black transition-colors ${newItemCategory === c.id ? 'bg-[#00A86B] text-white shadow-sm' : 'bg-gray-50 text-gray-400'}`}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+              {newItemCategory === 'hotel' && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] font-bold text-gray-400 uppercase shrink-0">Check-out:</span>
+                    <input type="date" value={newItemCheckOut} min={newItemDate} max={trip.endDate} onChange={e => setNewItemCheckOut(e.target.value)} className="flex-1 min-w-0 p-2 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700" />
+                  </div>
+                  <p className="text-[9px] text-gray-400 font-bold leading-tight">
+                    Split equally, the stay is charged by nights each person was there (dates on the Settle tab). No check-out means the trip's last day.
+                  </p>
+                </div>
+              )}
+              {linkablePlans.length > 0 && (
+                <div className="relative">
+                  <select value={linkedPlanId} onChange={e => setLinkedPlanId(e.target.value)} className="w-full p-2 pr-6 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700 appearance-none">
+                    <option value="">Not linked to a plan</option>
+                    {linkablePlans.map(p => <option key={p.id} value={p.id}>{p.time} {p.title}</option>)}
+                  </select>
+                  <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none"/>
+                </div>
+              )}
               
               <div className="flex gap-2">
+                <div className="relative shrink-0">
+                  <select value={newItemCurrency} onChange={e => { setNewItemCurrency(e.target.value); setFormError(''); }} className="h-full p-3 pr-6 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-[10px] font-bold text-gray-700 appearance-none">
+                    {currencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                  <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none"/>
+                </div>
                 <div className="relative flex-1 min-w-0">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-xs">₩</span>
-                  <input value={newItemCost} onChange={e => setNewItemCost(e.target.value)} type="number" placeholder="Amount (金額)" className="w-full p-3 pl-6 rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-xs font-bold text-gray-700" />
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-xs">{getCurrency(newItemCurrency).symbol}</span>
+                  <input value={newItemCost} onChange={e => setNewItemCost(e.target.value)} type="number" placeholder="Amount (金額)" className={`w-full p-3 ${getCurrency(newItemCurrency).symbol.length > 1 ? 'pl-10' : 'pl-6'} rounded-xl bg-gray-50 border-2 border-transparent focus:border-[#00A86B] focus:bg-white outline-none text-xs font-bold text-gray-700`} />
                 </div>
-                <button onClick={handleAddExpense} className="bg-[#00A86B] text-white px-6 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform flex items-center justify-center gap-1"><Plus size={16} /><span>ADD</span></button>
+                <button onClick={handleSubmitExpense} disabled={isSaving || receiptStatus === 'reading'} className={`${editingItem ? 'bg-blue-500' : 'bg-[#00A86B]'} disabled:opacity-50 text-white px-6 rounded-xl font-bold text-xs shadow-md active:scale-95 transition-transform flex items-center justify-center gap-1`}>
+                  {editingItem ? <><CheckCircle size={16} /><span>SAVE</span></> : <><Plus size={16} /><span>ADD</span></>}
+                </button>
               </div>
+              {newItemCurrency !== BASE_CURRENCY && (
+                <div className="text-[9px] font-bold text-gray-400 px-1">
+                  1 {newItemCurrency} = {formatMoney(formRateToBase)} {editingItem && (editingItem.currency || BASE_CURRENCY) === newItemCurrency ? '(rate when entered)' : `(${lockDay ? `${lockDay} rate, ` : ''}locked on save)`}
+                  {parseFloat(newItemCost) > 0 && <> • ≈ {formatMoney(parseFloat(newItemCost) * formRateToBase)}</>}
+                </div>
+              )}
+              {budgetWarnings.map(w => (
+                <div key={w.key} className="flex items-center gap-1.5 text-orange-500 text-[10px] font-bold px-1">
+                  <AlertTriangle size={12} /> {w.message}
+                </div>
+              ))}
+              {formError && (
+                <div className="flex items-center gap-1.5 text-red-500 text-[10px] font-bold px-1">
+                  <AlertTriangle size={12} /> {formError}
+                </div>
+              )}
             </div>
         </div>
 
@@ -294,32 +997,68 @@ export const ToolView: React.FC<ToolViewProps> = ({ expenses, onAdd, onDelete, t
 
         {isExpenseListExpanded && (
             <div className="bg-[#F1F8E9] max-h-[350px] overflow-y-auto p-2 space-y-2 animate-in slide-in-from-top-1 duration-200 shadow-inner">
+              <div className="flex gap-1 justify-end">
+                <div className="flex gap-1 mr-auto">
+                  <button onClick={() => setIsImportingCsv(true)} className="px-2 py-0.5 rounded text-[9px] font-black uppercase bg-white text-gray-400 flex items-center gap-1">
+                    <Upload size={9} /> CSV
+                  </button>
+                  {expenses.length > 0 && (
+                    <button onClick={handleExportCsv} className="px-2 py-0.5 rounded text-[9px] font-black uppercase bg-white text-gray-400 flex items-center gap-1">
+                      <Download size={9} /> CSV
+                    </button>
+                  )}
+                </div>
+                {(['none', 'day', 'category'] as GroupBy[]).map(g => (
+                  <button key={g} onClick={() => setGroupBy(g)} className={`px-2 py-0.5 rounded text-[9px] font-black uppercase ${groupBy === g ? 'bg-[#00A86B] text-white' : 'bg-white text-gray-400'}`}>
+                    {g === 'none' ? 'Latest' : `By ${g}`}
+                  </button>
+                ))}
+              </div>
               {expenses.length === 0 ? <div className="text-center py-8 text-[10px] font-bold text-gray-400 opacity-70">NO EXPENSES YET</div> : 
-                expenses.slice().reverse().map(item => (
-                  <div key={item.id} className="flex justify-between items-center bg-white p-2.5 rounded-xl border border-[#00A86B]/10 shadow-sm animate-in slide-in-from-left-2 duration-200">
-                    <div className="flex items-center gap-2 overflow-hidden flex-1">
-                        <div className={`w-6 h-6 rounded-full flex items-center justify-center text-[8px] font-black flex-shrink-0 ${getPayerColor(item.payer)}`}>{item.payer.charAt(0)}</div>
-                        <div className="flex flex-col min-w-0">
-                          <div className="flex items-center gap-1.5">
-                              <span className="text-xs font-bold text-gray-800 truncate">{item.name}</span>
-                              {/* Icon to show split status */}
-                              {(!item.splitBy || item.splitBy.length === 1) ? (
-                                  <Lock size={10} className="text-gray-300" /> 
-                              ) : (item.splitBy.length < tripUsers.length) ? (
-                                  <span className="text-[8px] bg-orange-100 text-orange-600 px-1 rounded font-bold">Subset</span>
-                              ) : null}
+                expenseGroups.map(group => (
+                  <div key={group.key} className="space-y-2">
+                    {groupBy !== 'none' && (
+                      <div className="flex justify-between items-center px-1 pt-1 text-[9px] font-black text-[#689F38] uppercase tracking-wider">
+                        <span>{group.label}</span>
+                        <span className="font-mono">{formatMoney(group.items.reduce((sum, item) => sum + toBase(item), 0))}</span>
+                      </div>
+                    )}
+                    {group.items.map(item => (
+                      <div key={item.id} className="bg-white rounded-xl border border-[#00A86B]/10 shadow-sm animate-in slide-in-from-left-2 duration-200">
+                        <div onClick={() => setExpandedExpenseId(expandedExpenseId === item.id ? null : item.id)} className="flex justify-between items-center p-2.5 cursor-pointer">
+                          <div className="flex items-center gap-2 overflow-hidden flex-1">
+                              <div className={`w-6 h-6 rounded-full flex items-center justify-center text-[8px] font-black flex-shrink-0 ${getPayerColor(item.payer)}`}>{item.payer.charAt(0)}</div>
+                              <div className="flex flex-col min-w-0">
+                                <div className="flex items-center gap-1.5">
+                                    <span className="text-xs font-bold text-gray-800 truncate">{item.name}</span>
+                                    {/* Icon to show split status */}
+                                    {(!item.splitBy || item.splitBy.length === 1) ? (
+                                        <Lock size={10} className="text-gray-300" /> 
+                                    ) : (item.splitBy.length < tripUsers.length) ? (
+                                        <span className="text-[8px] bg-orange-100 text-orange-600 px-1 rounded font-bold">Subset</span>
+                                    ) : null}
+                                    {item.receipt && (
+                                        <button onClick={(e) => { e.stopPropagation(); setViewingReceipt({ receipt: item.receipt!, title: item.name }); }} className="text-gray-400 hover:text-[#00A86B]"><Receipt size={10} /></button>
+                                    )}
+                                </div>
+                                <span className="text-[8px] text-gray-400 font-bold">
+                                   {item.time && groupBy === 'day' ? `${item.time} • ` : ''}Paid by {Object.keys(getExpensePayments(item)).join(' & ')} • {item.splitBy && item.splitBy.length > 1 ? `Split${item.splitMode && item.splitMode !== 'equal' ? ` (${item.splitMode})` : ''}: ${item.splitBy.join(', ')}` : 'Personal'}
+                                </span>
+                              </div>
+                          </div>
+                          <div className="flex items-center gap-3 flex-shrink-0 ml-2">
+                            <div className={`text-xs font-mono font-bold select-none text-right ${(item.splitBy && item.splitBy.length > 1) ? '' : 'opacity-50'}`}>
+                                <PriceDisplay item={item} rate={exchangeRate} />
+                            </div>
+                            <div className="flex items-center">
+                              <button onClick={(e) => handleEditClick(item, e)} className={`p-1.5 rounded-md transition-colors ${item.id === editingId ? 'text-blue-500 bg-blue-50' : 'text-gray-400 hover:bg-blue-50 hover:text-blue-500'}`}><Edit2 size={14} /></button>
+                              <button onClick={(e) => handleDeleteClick(item.id, e)} className="p-1.5 rounded-md text-gray-400 hover:bg-red-50 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>
+                            </div>
                           </div>
-                          <span className="text-[8px] text-gray-400 font-bold">
-                             Paid by {item.payer} • {item.splitBy && item.splitBy.length > 1 ? `Split: ${item.splitBy.join(', ')}` : 'Personal'}
-                          </span>
                         </div>
-                    </div>
-                    <div className="flex items-center gap-3 flex-shrink-0 ml-2">
-                      <div className={`text-xs font-mono font-bold select-none text-right ${(item.splitBy && item.splitBy.length > 1) ? '' : 'opacity-50'}`}>
-                          <PriceDisplay amount={item.cost} rate={exchangeRate} />
+                        {expandedExpenseId === item.id && renderBreakdown(item)}
                       </div>
-                      <button onClick={(e) => handleDeleteClick(item.id, e)} className="p-1.5 rounded-md text-gray-400 hover:bg-red-50 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>
-                    </div>
+                    ))}
                   </div>
                 ))
               }